@@ -0,0 +1,42 @@
+import { PhoneOff } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "./ui/button";
+import { useConversationManager } from "@/hooks/use-conversation-manager";
+
+const ActiveCallIndicator = () => {
+  const navigate = useNavigate();
+  const { activeAgent, isInCall, reconnectAttempt, endSession } = useConversationManager();
+
+  if (!isInCall || !activeAgent) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-1 rounded-full border border-primary/30 bg-primary/5 pl-3 pr-1 py-1">
+      <button
+        onClick={() => navigate("/")}
+        className="flex items-center gap-2 text-sm font-medium text-primary"
+        aria-label={`Return to your conversation with ${activeAgent.agentName}`}
+      >
+        <span className="relative flex h-2 w-2">
+          <span className="absolute inline-flex h-full w-full rounded-full bg-emerald-500 opacity-75 animate-ping motion-reduce:animate-none" />
+          <span className="relative inline-flex h-2 w-2 rounded-full bg-emerald-500" />
+        </span>
+        <span className="max-w-[12rem] truncate">
+          {reconnectAttempt > 0 ? "Reconnecting to" : "In call with"} {activeAgent.agentName}
+        </span>
+      </button>
+      <Button
+        onClick={() => endSession()}
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 rounded-full text-destructive hover:bg-destructive/10 hover:text-destructive"
+        aria-label={`End conversation with ${activeAgent.agentName}`}
+      >
+        <PhoneOff className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+export default ActiveCallIndicator;
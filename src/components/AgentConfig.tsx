@@ -1,21 +1,51 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Textarea } from "./ui/textarea";
+import { Checkbox } from "./ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
 import { ScrollArea } from "./ui/scroll-area";
-import { Plus, Trash2, Pencil } from "lucide-react";
+import { Plus, Trash2, Pencil, RefreshCw, Star, ThumbsDown, ThumbsUp } from "lucide-react";
 import { useToast } from "./ui/use-toast";
+import AgentHealthBadge from "./AgentHealthBadge";
 import { supabase } from "@/integrations/supabase/client";
 import { z } from "zod";
+import { CLIENT_TOOLS, CLIENT_TOOL_NAMES, type ClientToolName } from "@/lib/client-tools";
+import { AGENT_LANGUAGES, AGENT_LANGUAGE_CODES } from "@/lib/agent-overrides";
+import { checkAgentHealth, isAgentBroken, type AgentHealth } from "@/lib/agent-health";
+import { fetchAgentFeedbackSummaries, type AgentFeedbackSummary } from "@/lib/feedback";
+import { VOICE_PROVIDERS, VOICE_PROVIDER_IDS, type VoiceProviderId } from "@/lib/voice-provider";
+import {
+  PROFILE_FIELDS,
+  PROFILE_FIELD_NAMES,
+  isProfileFieldName,
+  type ProfileFieldName,
+} from "@/lib/user-context";
+
+const DEFAULT_LANGUAGE = "default";
 
 export interface Agent {
   id: string;
   name: string;
   agentId: string;
+  voiceProvider: VoiceProviderId;
   bio: string;
   llm?: string;
+  clientTools: string[];
+  promptOverride?: string;
+  firstMessage?: string;
+  language?: string;
+  voiceId?: string;
+  sharedProfileFields: string[];
+  health: AgentHealth;
 }
 
 const agentSchema = z.object({
@@ -23,13 +53,14 @@ const agentSchema = z.object({
     .trim()
     .min(1, "Agent name is required")
     .max(100, "Agent name must be less than 100 characters"),
+  voiceProvider: z.enum(VOICE_PROVIDER_IDS),
+  // Only ElevenLabs agents need one, which the refinement below checks
   agentId: z.string()
     .trim()
     .regex(
-      /^[a-zA-Z0-9_-]+$/,
+      /^[a-zA-Z0-9_-]*$/,
       "Agent ID can only contain letters, numbers, hyphens, and underscores"
     )
-    .min(3, "Agent ID must be at least 3 characters")
     .max(100, "Agent ID must be less than 100 characters"),
   bio: z.string()
     .trim()
@@ -38,7 +69,31 @@ const agentSchema = z.object({
   llm: z.string()
     .trim()
     .max(100, "LLM model name must be less than 100 characters")
-    .optional()
+    .optional(),
+  clientTools: z.array(z.enum(CLIENT_TOOL_NAMES)),
+  promptOverride: z.string()
+    .trim()
+    .max(10000, "Prompt notes must be less than 10000 characters")
+    .optional(),
+  firstMessage: z.string()
+    .trim()
+    .max(1000, "First message must be less than 1000 characters")
+    .optional(),
+  language: z.enum(AGENT_LANGUAGE_CODES, {
+    errorMap: () => ({ message: "Please choose a supported language" })
+  }).optional(),
+  voiceId: z.string()
+    .trim()
+    .regex(
+      /^[a-zA-Z0-9_-]+$/,
+      "Voice ID can only contain letters, numbers, hyphens, and underscores"
+    )
+    .max(100, "Voice ID must be less than 100 characters")
+    .optional(),
+  sharedProfileFields: z.array(z.enum(PROFILE_FIELD_NAMES))
+}).refine((agent) => agent.voiceProvider !== "elevenlabs" || agent.agentId.length >= 3, {
+  message: "Agent ID must be at least 3 characters",
+  path: ["agentId"],
 });
 
 interface AgentConfigProps {
@@ -52,17 +107,64 @@ const AgentConfig = ({ agents, onAgentsChange, onClose, onRefresh }: AgentConfig
   const { toast } = useToast();
   const [newAgentName, setNewAgentName] = useState("");
   const [newAgentId, setNewAgentId] = useState("");
+  const [newAgentVoiceProvider, setNewAgentVoiceProvider] = useState<VoiceProviderId>("elevenlabs");
   const [newAgentBio, setNewAgentBio] = useState("");
   const [newAgentLlm, setNewAgentLlm] = useState("");
+  const [newAgentClientTools, setNewAgentClientTools] = useState<ClientToolName[]>([]);
+  const [newAgentPromptOverride, setNewAgentPromptOverride] = useState("");
+  const [newAgentFirstMessage, setNewAgentFirstMessage] = useState("");
+  const [newAgentLanguage, setNewAgentLanguage] = useState("");
+  const [newAgentVoiceId, setNewAgentVoiceId] = useState("");
+  const [newAgentSharedFields, setNewAgentSharedFields] = useState<ProfileFieldName[]>([]);
   const [editingAgentId, setEditingAgentId] = useState<string | null>(null);
+  const [checkingAgentId, setCheckingAgentId] = useState<string | null>(null);
+  const [feedbackSummaries, setFeedbackSummaries] = useState<Record<string, AgentFeedbackSummary>>({});
+
+  // Ratings are only a guide, so a failed load just leaves them out of the list
+  useEffect(() => {
+    fetchAgentFeedbackSummaries()
+      .then(setFeedbackSummaries)
+      .catch((error) => console.error("Failed to load agent feedback:", error));
+  }, []);
+
+  // A wrong agent ID otherwise only shows up when a user's call fails to start
+  const runHealthCheck = async (agentRowId: string, agentName: string) => {
+    setCheckingAgentId(agentRowId);
+    try {
+      const health = await checkAgentHealth(agentRowId);
+      if (isAgentBroken(health)) {
+        toast({
+          title: "Agent Unreachable",
+          description: `${agentName}: ${health.detail}`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Health Check Failed",
+        description: error instanceof Error ? error.message : "Could not check the agent",
+        variant: "destructive",
+      });
+    } finally {
+      setCheckingAgentId(null);
+      onRefresh();
+    }
+  };
 
   const addOrUpdateAgent = async () => {
     // Validate input
     const validationResult = agentSchema.safeParse({
       name: newAgentName,
       agentId: newAgentId,
+      voiceProvider: newAgentVoiceProvider,
       bio: newAgentBio || undefined,
-      llm: newAgentLlm || undefined
+      llm: newAgentLlm || undefined,
+      clientTools: newAgentClientTools,
+      promptOverride: newAgentPromptOverride || undefined,
+      firstMessage: newAgentFirstMessage || undefined,
+      language: newAgentLanguage || undefined,
+      voiceId: newAgentVoiceId || undefined,
+      sharedProfileFields: newAgentSharedFields
     });
 
     if (!validationResult.success) {
@@ -75,6 +177,7 @@ const AgentConfig = ({ agents, onAgentsChange, onClose, onRefresh }: AgentConfig
     }
 
     const validatedData = validationResult.data;
+    let savedAgentId = editingAgentId;
 
     if (editingAgentId) {
       // Update existing agent in database
@@ -83,8 +186,15 @@ const AgentConfig = ({ agents, onAgentsChange, onClose, onRefresh }: AgentConfig
         .update({
           name: validatedData.name,
           agent_id: validatedData.agentId,
+          voice_provider: validatedData.voiceProvider,
           bio: validatedData.bio || null,
           llm: validatedData.llm || null,
+          client_tools: validatedData.clientTools,
+          prompt_override: validatedData.promptOverride || null,
+          first_message: validatedData.firstMessage || null,
+          language: validatedData.language || null,
+          voice_id: validatedData.voiceId || null,
+          shared_profile_fields: validatedData.sharedProfileFields,
         })
         .eq('id', editingAgentId);
 
@@ -103,14 +213,23 @@ const AgentConfig = ({ agents, onAgentsChange, onClose, onRefresh }: AgentConfig
       });
     } else {
       // Add new agent to database
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('agents')
         .insert({
           name: validatedData.name,
           agent_id: validatedData.agentId,
+          voice_provider: validatedData.voiceProvider,
           bio: validatedData.bio || null,
           llm: validatedData.llm || null,
-        });
+          client_tools: validatedData.clientTools,
+          prompt_override: validatedData.promptOverride || null,
+          first_message: validatedData.firstMessage || null,
+          language: validatedData.language || null,
+          voice_id: validatedData.voiceId || null,
+          shared_profile_fields: validatedData.sharedProfileFields,
+        })
+        .select('id')
+        .single();
 
       if (error) {
         toast({
@@ -121,6 +240,7 @@ const AgentConfig = ({ agents, onAgentsChange, onClose, onRefresh }: AgentConfig
         return;
       }
 
+      savedAgentId = data.id;
       toast({
         title: "Agent Added",
         description: `${validatedData.name} has been added successfully`,
@@ -129,30 +249,64 @@ const AgentConfig = ({ agents, onAgentsChange, onClose, onRefresh }: AgentConfig
 
     setNewAgentName("");
     setNewAgentId("");
+    setNewAgentVoiceProvider("elevenlabs");
     setNewAgentBio("");
     setNewAgentLlm("");
+    setNewAgentClientTools([]);
+    setNewAgentPromptOverride("");
+    setNewAgentFirstMessage("");
+    setNewAgentLanguage("");
+    setNewAgentVoiceId("");
+    setNewAgentSharedFields([]);
     setEditingAgentId(null);
     
     // Refresh the agents list
     onRefresh();
+    runHealthCheck(savedAgentId, validatedData.name);
   };
 
   const editAgent = (agent: Agent) => {
     setNewAgentName(agent.name);
     setNewAgentId(agent.agentId);
+    setNewAgentVoiceProvider(agent.voiceProvider);
     setNewAgentBio(agent.bio);
     setNewAgentLlm(agent.llm || "");
+    setNewAgentClientTools(agent.clientTools.filter((tool): tool is ClientToolName => tool in CLIENT_TOOLS));
+    setNewAgentPromptOverride(agent.promptOverride || "");
+    setNewAgentFirstMessage(agent.firstMessage || "");
+    setNewAgentLanguage(agent.language || "");
+    setNewAgentVoiceId(agent.voiceId || "");
+    setNewAgentSharedFields(agent.sharedProfileFields.filter(isProfileFieldName));
     setEditingAgentId(agent.id);
   };
 
   const cancelEdit = () => {
     setNewAgentName("");
     setNewAgentId("");
+    setNewAgentVoiceProvider("elevenlabs");
     setNewAgentBio("");
     setNewAgentLlm("");
+    setNewAgentClientTools([]);
+    setNewAgentPromptOverride("");
+    setNewAgentFirstMessage("");
+    setNewAgentLanguage("");
+    setNewAgentVoiceId("");
+    setNewAgentSharedFields([]);
     setEditingAgentId(null);
   };
 
+  const toggleClientTool = (tool: ClientToolName, enabled: boolean) => {
+    setNewAgentClientTools((current) =>
+      enabled ? [...current, tool] : current.filter((name) => name !== tool)
+    );
+  };
+
+  const toggleSharedField = (field: ProfileFieldName, enabled: boolean) => {
+    setNewAgentSharedFields((current) =>
+      enabled ? [...current, field] : current.filter((name) => name !== field)
+    );
+  };
+
   const removeAgent = async (id: string) => {
     const { error } = await supabase
       .from('agents')
@@ -203,16 +357,39 @@ const AgentConfig = ({ agents, onAgentsChange, onClose, onRefresh }: AgentConfig
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="agentId" className="text-card-foreground">ElevenLabs Agent ID</Label>
-                <Input
-                  id="agentId"
-                  placeholder="e.g., agent_3701k83..."
-                  value={newAgentId}
-                  onChange={(e) => setNewAgentId(e.target.value)}
-                  className="border-input bg-white text-gray-900 placeholder:text-gray-500"
-                  maxLength={100}
-                />
+                <Label htmlFor="agentVoiceProvider" className="text-card-foreground">Voice Provider</Label>
+                <Select
+                  value={newAgentVoiceProvider}
+                  onValueChange={(value) => setNewAgentVoiceProvider(value as VoiceProviderId)}
+                >
+                  <SelectTrigger id="agentVoiceProvider" className="border-input bg-white text-gray-900">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VOICE_PROVIDER_IDS.map((provider) => (
+                      <SelectItem key={provider} value={provider}>
+                        {VOICE_PROVIDERS[provider].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  {VOICE_PROVIDERS[newAgentVoiceProvider].description}
+                </p>
               </div>
+              {newAgentVoiceProvider === "elevenlabs" && (
+                <div className="space-y-2">
+                  <Label htmlFor="agentId" className="text-card-foreground">ElevenLabs Agent ID</Label>
+                  <Input
+                    id="agentId"
+                    placeholder="e.g., agent_3701k83..."
+                    value={newAgentId}
+                    onChange={(e) => setNewAgentId(e.target.value)}
+                    className="border-input bg-white text-gray-900 placeholder:text-gray-500"
+                    maxLength={100}
+                  />
+                </div>
+              )}
               <div className="space-y-2">
                 <Label htmlFor="agentBio" className="text-card-foreground">Agent Bio</Label>
                 <Textarea
@@ -235,6 +412,119 @@ const AgentConfig = ({ agents, onAgentsChange, onClose, onRefresh }: AgentConfig
                   maxLength={100}
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="agentPromptOverride" className="text-card-foreground">Prompt Notes</Label>
+                <Textarea
+                  id="agentPromptOverride"
+                  placeholder="e.g., Wording to add to this agent's prompt in ElevenLabs..."
+                  value={newAgentPromptOverride}
+                  onChange={(e) => setNewAgentPromptOverride(e.target.value)}
+                  className="border-input bg-white text-gray-900 placeholder:text-gray-500 min-h-[100px]"
+                  maxLength={10000}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Only admins can read these, and they are not sent to the agent. ElevenLabs only takes prompt
+                  changes from the browser when a session starts, where anyone in the call could read them, so add
+                  them to the agent's prompt in ElevenLabs to take effect.
+                </p>
+              </div>
+              <div className="space-y-4 rounded-lg border border-border p-4">
+                <div className="space-y-1">
+                  <h4 className="font-medium text-card-foreground">Session Overrides</h4>
+                  <p className="text-sm text-muted-foreground">
+                    Optional. Applied when a conversation starts; overrides must be allowed in the agent's ElevenLabs security settings.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="agentFirstMessage" className="text-card-foreground">First Message</Label>
+                  <Input
+                    id="agentFirstMessage"
+                    placeholder="e.g., Hi, I'm your strategy lead. What are we working on today?"
+                    value={newAgentFirstMessage}
+                    onChange={(e) => setNewAgentFirstMessage(e.target.value)}
+                    className="border-input bg-white text-gray-900 placeholder:text-gray-500"
+                    maxLength={1000}
+                  />
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="agentLanguage" className="text-card-foreground">Language</Label>
+                    <Select
+                      value={newAgentLanguage || DEFAULT_LANGUAGE}
+                      onValueChange={(value) => setNewAgentLanguage(value === DEFAULT_LANGUAGE ? "" : value)}
+                    >
+                      <SelectTrigger id="agentLanguage" className="border-input bg-white text-gray-900">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_LANGUAGE}>Agent default</SelectItem>
+                        {AGENT_LANGUAGES.map((language) => (
+                          <SelectItem key={language.code} value={language.code}>
+                            {language.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="agentVoiceId" className="text-card-foreground">Voice ID</Label>
+                    <Input
+                      id="agentVoiceId"
+                      placeholder="e.g., 21m00Tcm4TlvDq8ikWAM"
+                      value={newAgentVoiceId}
+                      onChange={(e) => setNewAgentVoiceId(e.target.value)}
+                      className="border-input bg-white text-gray-900 placeholder:text-gray-500"
+                      maxLength={100}
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-card-foreground">Shared User Context</Label>
+                <p className="text-sm text-muted-foreground">
+                  Profile fields sent to this agent as dynamic variables. Users can see what is shared on the agent card.
+                </p>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {PROFILE_FIELD_NAMES.map((field) => (
+                    <div key={field} className="flex items-start gap-2">
+                      <Checkbox
+                        id={`sharedField-${field}`}
+                        checked={newAgentSharedFields.includes(field)}
+                        onCheckedChange={(checked) => toggleSharedField(field, checked === true)}
+                        className="mt-0.5"
+                      />
+                      <Label htmlFor={`sharedField-${field}`} className="font-normal leading-snug">
+                        <span className="font-medium">{PROFILE_FIELDS[field].label}</span>
+                        <span className="block text-xs text-muted-foreground font-mono">
+                          {`{{${PROFILE_FIELDS[field].variable}}}`}
+                        </span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-card-foreground">Client Tools</Label>
+                <p className="text-sm text-muted-foreground">
+                  Browser actions this agent may trigger. Each must also be configured as a client tool on the ElevenLabs agent.
+                </p>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {CLIENT_TOOL_NAMES.map((tool) => (
+                    <div key={tool} className="flex items-start gap-2">
+                      <Checkbox
+                        id={`clientTool-${tool}`}
+                        checked={newAgentClientTools.includes(tool)}
+                        onCheckedChange={(checked) => toggleClientTool(tool, checked === true)}
+                        className="mt-0.5"
+                      />
+                      <Label htmlFor={`clientTool-${tool}`} className="font-normal leading-snug">
+                        <span className="font-medium">{CLIENT_TOOLS[tool].label}</span>
+                        <span className="block text-xs text-muted-foreground font-mono">{tool}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
             </div>
             <div className="flex gap-2">
               <Button
@@ -270,9 +560,12 @@ const AgentConfig = ({ agents, onAgentsChange, onClose, onRefresh }: AgentConfig
                     className="flex items-center justify-between p-3 border border-border rounded-lg bg-card"
                   >
                     <div className="flex-1">
-                      <p className="font-medium text-card-foreground">{agent.name}</p>
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-card-foreground">{agent.name}</p>
+                        <AgentHealthBadge health={agent.health} showAll />
+                      </div>
                       <p className="text-sm text-muted-foreground font-mono">
-                        {agent.agentId}
+                        {agent.voiceProvider === "elevenlabs" && agent.agentId ? agent.agentId : VOICE_PROVIDERS[agent.voiceProvider].label}
                       </p>
                       {agent.bio && (
                         <p className="text-sm text-muted-foreground mt-1">
@@ -284,8 +577,41 @@ const AgentConfig = ({ agents, onAgentsChange, onClose, onRefresh }: AgentConfig
                           LLM: {agent.llm}
                         </p>
                       )}
+                      {agent.clientTools.length > 0 && (
+                        <p className="text-sm text-muted-foreground mt-1">
+                          Tools: {agent.clientTools.join(", ")}
+                        </p>
+                      )}
+                      {feedbackSummaries[agent.id] && (
+                        <p className="flex items-center gap-3 text-sm text-muted-foreground mt-1">
+                          <span className="flex items-center gap-1" title="Average session rating">
+                            <Star className="h-3.5 w-3.5" />
+                            {feedbackSummaries[agent.id].averageRating !== null
+                              ? `${feedbackSummaries[agent.id].averageRating.toFixed(1)} from ${feedbackSummaries[agent.id].ratingCount} ratings`
+                              : "No ratings"}
+                          </span>
+                          <span className="flex items-center gap-1" title="Responses marked good">
+                            <ThumbsUp className="h-3.5 w-3.5" />
+                            {feedbackSummaries[agent.id].likeCount}
+                          </span>
+                          <span className="flex items-center gap-1" title="Responses marked bad">
+                            <ThumbsDown className="h-3.5 w-3.5" />
+                            {feedbackSummaries[agent.id].dislikeCount}
+                          </span>
+                        </p>
+                      )}
                     </div>
                     <div className="flex gap-1">
+                      <Button
+                        onClick={() => runHealthCheck(agent.id, agent.name)}
+                        disabled={checkingAgentId !== null}
+                        variant="ghost"
+                        size="icon"
+                        className="text-primary hover:text-primary hover:bg-primary/10"
+                        aria-label={`Check ${agent.name} now`}
+                      >
+                        <RefreshCw className={`h-4 w-4 ${checkingAgentId === agent.id ? "animate-spin" : ""}`} />
+                      </Button>
                       <Button
                         onClick={() => editAgent(agent)}
                         variant="ghost"
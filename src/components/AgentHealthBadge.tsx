@@ -0,0 +1,49 @@
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, CheckCircle2, HelpCircle } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "./ui/tooltip";
+import { AGENT_HEALTH_LABELS, isAgentBroken, type AgentHealth } from "@/lib/agent-health";
+
+interface AgentHealthBadgeProps {
+  health: AgentHealth;
+  // Users only need to hear about broken agents; admins see every state
+  showAll?: boolean;
+}
+
+const AgentHealthBadge = ({ health, showAll = false }: AgentHealthBadgeProps) => {
+  const isBroken = isAgentBroken(health);
+  if (!isBroken && !showAll) {
+    return null;
+  }
+
+  const label = health.status ? AGENT_HEALTH_LABELS[health.status] : "Not checked yet";
+  const Icon = isBroken ? AlertTriangle : health.status ? CheckCircle2 : HelpCircle;
+  const className = isBroken
+    ? "bg-red-100 text-red-800"
+    : health.status
+      ? "bg-emerald-100 text-emerald-800"
+      : "bg-gray-100 text-gray-600";
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-semibold ${className}`}
+          tabIndex={0}
+        >
+          <Icon className="mr-1 h-3 w-3" />
+          {label}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>
+        {health.detail && <p>{health.detail}</p>}
+        <p className="text-muted-foreground">
+          {health.checkedAt
+            ? `Checked ${formatDistanceToNow(health.checkedAt, { addSuffix: true })}`
+            : "This agent has not been checked yet"}
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default AgentHealthBadge;
@@ -0,0 +1,148 @@
+import { Mic, MicOff, Volume2, VolumeX } from "lucide-react";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Slider } from "./ui/slider";
+import { Switch } from "./ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import type { MediaDeviceOption } from "@/hooks/use-media-devices";
+
+const DEFAULT_DEVICE = "default";
+
+export const PUSH_TO_TALK_KEY = "Space";
+
+interface AudioControlsProps {
+  inputs: MediaDeviceOption[];
+  outputs: MediaDeviceOption[];
+  canSelectOutput: boolean;
+  inputDeviceId?: string;
+  outputDeviceId?: string;
+  onInputDeviceChange: (deviceId: string | undefined) => void;
+  onOutputDeviceChange: (deviceId: string | undefined) => void;
+  muted: boolean;
+  onMutedChange: (muted: boolean) => void;
+  volume: number;
+  onVolumeChange: (volume: number) => void;
+  pushToTalk: boolean;
+  onPushToTalkChange: (enabled: boolean) => void;
+  isTalking: boolean;
+}
+
+const AudioControls = ({
+  inputs,
+  outputs,
+  canSelectOutput,
+  inputDeviceId,
+  outputDeviceId,
+  onInputDeviceChange,
+  onOutputDeviceChange,
+  muted,
+  onMutedChange,
+  volume,
+  onVolumeChange,
+  pushToTalk,
+  onPushToTalkChange,
+  isTalking,
+}: AudioControlsProps) => {
+  return (
+    <div className="w-full rounded-xl border border-white/20 bg-black/30 backdrop-blur-sm px-4 py-3 space-y-3 text-left">
+      <div className="flex items-center gap-3">
+        <Button
+          onClick={() => onMutedChange(!muted)}
+          variant="ghost"
+          size="icon"
+          className="text-white hover:bg-white/10 hover:text-white"
+          aria-label={muted ? "Unmute microphone" : "Mute microphone"}
+          aria-pressed={muted}
+          disabled={pushToTalk}
+        >
+          {muted ? <MicOff className="h-5 w-5" /> : <Mic className="h-5 w-5" />}
+        </Button>
+        {volume === 0 ? (
+          <VolumeX className="h-4 w-4 text-white/80" />
+        ) : (
+          <Volume2 className="h-4 w-4 text-white/80" />
+        )}
+        <Slider
+          value={[volume]}
+          onValueChange={([value]) => onVolumeChange(value)}
+          min={0}
+          max={1}
+          step={0.05}
+          aria-label="Agent volume"
+        />
+      </div>
+
+      <div className="grid gap-2">
+        <Label className="text-xs text-white/80">Microphone</Label>
+        <Select
+          value={inputDeviceId ?? DEFAULT_DEVICE}
+          onValueChange={(value) => onInputDeviceChange(value === DEFAULT_DEVICE ? undefined : value)}
+        >
+          <SelectTrigger className="h-9 bg-white text-gray-900">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+            {inputs
+              .filter((device) => device.deviceId !== DEFAULT_DEVICE)
+              .map((device) => (
+                <SelectItem key={device.deviceId} value={device.deviceId}>
+                  {device.label}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {canSelectOutput && (
+        <div className="grid gap-2">
+          <Label className="text-xs text-white/80">Speaker</Label>
+          <Select
+            value={outputDeviceId ?? DEFAULT_DEVICE}
+            onValueChange={(value) => onOutputDeviceChange(value === DEFAULT_DEVICE ? undefined : value)}
+          >
+            <SelectTrigger className="h-9 bg-white text-gray-900">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+              {outputs
+                .filter((device) => device.deviceId !== DEFAULT_DEVICE)
+                .map((device) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="pushToTalk" className="text-sm text-white">
+          Push to talk
+          <span className="block text-xs font-normal text-white/70">
+            {pushToTalk
+              ? isTalking
+                ? "Talking..."
+                : "Hold Space to talk"
+              : "Microphone stays open"}
+          </span>
+        </Label>
+        <Switch
+          id="pushToTalk"
+          checked={pushToTalk}
+          onCheckedChange={onPushToTalkChange}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AudioControls;
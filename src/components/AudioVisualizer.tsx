@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from "react";
+import { Mic, Volume2 } from "lucide-react";
+import { usePrefersReducedMotion } from "@/hooks/use-reduced-motion";
+
+const BAR_COUNT = 5;
+// Volumes below this are treated as background noise
+const SPEECH_THRESHOLD = 0.05;
+const REDUCED_MOTION_POLL_MS = 300;
+
+type Speaker = "agent" | "user" | "idle";
+
+interface AudioVisualizerProps {
+  isSpeaking: boolean;
+  getInputVolume: () => number;
+  getOutputVolume: () => number;
+  getInputFrequencyData: () => Uint8Array | undefined;
+  getOutputFrequencyData: () => Uint8Array | undefined;
+}
+
+// Average the lower half of the spectrum (where speech sits) into equal bands
+const toBandLevels = (data: Uint8Array | undefined) => {
+  if (!data || data.length === 0) {
+    return Array<number>(BAR_COUNT).fill(0);
+  }
+  const usable = Math.max(BAR_COUNT, Math.floor(data.length / 2));
+  const bandSize = Math.floor(usable / BAR_COUNT);
+  return Array.from({ length: BAR_COUNT }, (_, band) => {
+    let sum = 0;
+    for (let i = band * bandSize; i < (band + 1) * bandSize; i++) {
+      sum += data[i] ?? 0;
+    }
+    return sum / bandSize / 255;
+  });
+};
+
+const barStyles: Record<Speaker, string> = {
+  agent: "bg-primary",
+  user: "bg-emerald-500",
+  idle: "bg-primary/40",
+};
+
+const AudioVisualizer = ({
+  isSpeaking,
+  getInputVolume,
+  getOutputVolume,
+  getInputFrequencyData,
+  getOutputFrequencyData,
+}: AudioVisualizerProps) => {
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const barRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [speaker, setSpeaker] = useState<Speaker>("idle");
+
+  // Read the latest getters from refs so the animation loop never restarts mid-call
+  const sourcesRef = useRef({ isSpeaking, getInputVolume, getOutputVolume, getInputFrequencyData, getOutputFrequencyData });
+  sourcesRef.current = { isSpeaking, getInputVolume, getOutputVolume, getInputFrequencyData, getOutputFrequencyData };
+
+  useEffect(() => {
+    const currentSpeaker = (): Speaker => {
+      const sources = sourcesRef.current;
+      if (sources.isSpeaking || sources.getOutputVolume() > SPEECH_THRESHOLD) {
+        return "agent";
+      }
+      return sources.getInputVolume() > SPEECH_THRESHOLD ? "user" : "idle";
+    };
+
+    if (prefersReducedMotion) {
+      const interval = setInterval(() => setSpeaker(currentSpeaker()), REDUCED_MOTION_POLL_MS);
+      return () => clearInterval(interval);
+    }
+
+    let frame: number;
+    let lastSpeaker: Speaker = "idle";
+    const draw = () => {
+      const next = currentSpeaker();
+      if (next !== lastSpeaker) {
+        lastSpeaker = next;
+        setSpeaker(next);
+      }
+
+      const sources = sourcesRef.current;
+      const levels = next === "agent"
+        ? toBandLevels(sources.getOutputFrequencyData())
+        : toBandLevels(sources.getInputFrequencyData());
+
+      barRefs.current.forEach((bar, i) => {
+        if (bar) {
+          bar.style.height = `${20 + Math.min(1, levels[i] * 1.5) * 60}%`;
+        }
+      });
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+
+    return () => cancelAnimationFrame(frame);
+  }, [prefersReducedMotion]);
+
+  if (prefersReducedMotion) {
+    return (
+      <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-primary">
+        {speaker === "agent" ? (
+          <Volume2 className="w-10 h-10" />
+        ) : (
+          <Mic className={`w-10 h-10 ${speaker === "user" ? "text-emerald-600" : "text-primary/40"}`} />
+        )}
+        <span className="text-xs font-semibold">
+          {speaker === "agent" ? "Agent speaking" : speaker === "user" ? "Hearing you" : "Listening"}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`absolute inset-0 flex items-center justify-center ${speaker === "user" ? "gap-1" : "gap-1.5"}`}
+      role="img"
+      aria-label={speaker === "agent" ? "Agent speaking" : speaker === "user" ? "Hearing you" : "Listening"}
+    >
+      {Array.from({ length: BAR_COUNT }, (_, i) => (
+        <div
+          key={i}
+          ref={(el) => (barRefs.current[i] = el)}
+          className={`rounded-full transition-colors ${barStyles[speaker]} ${speaker === "user" ? "w-2" : "w-1.5"}`}
+          style={{ height: "20%" }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default AudioVisualizer;
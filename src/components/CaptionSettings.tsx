@@ -0,0 +1,61 @@
+import { Captions, CaptionsOff } from "lucide-react";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import {
+  CAPTION_SIZES,
+  type CaptionPreferences,
+  type CaptionSize,
+} from "@/hooks/use-caption-preferences";
+
+interface CaptionSettingsProps {
+  preferences: CaptionPreferences;
+  onChange: (changes: Partial<CaptionPreferences>) => void;
+}
+
+const CaptionSettings = ({ preferences, onChange }: CaptionSettingsProps) => (
+  <Popover>
+    <PopoverTrigger className="inline-flex items-center text-white/80 text-sm underline-offset-4 hover:underline">
+      {preferences.enabled ? <Captions className="mr-1 h-4 w-4" /> : <CaptionsOff className="mr-1 h-4 w-4" />}
+      Captions {preferences.enabled ? "on" : "off"}
+    </PopoverTrigger>
+    <PopoverContent className="w-72 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="captions-enabled">Show live captions</Label>
+        <Switch
+          id="captions-enabled"
+          checked={preferences.enabled}
+          onCheckedChange={(enabled) => onChange({ enabled })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label id="captions-size-label">Text size</Label>
+        <ToggleGroup
+          type="single"
+          value={preferences.size}
+          onValueChange={(value) => value && onChange({ size: value as CaptionSize })}
+          aria-labelledby="captions-size-label"
+          className="justify-start"
+        >
+          {CAPTION_SIZES.map(({ value, label }) => (
+            <ToggleGroupItem key={value} value={value} size="sm">
+              {label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="captions-high-contrast">High contrast</Label>
+        <Switch
+          id="captions-high-contrast"
+          checked={preferences.contrast === "high"}
+          onCheckedChange={(high) => onChange({ contrast: high ? "high" : "standard" })}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">Saved on this browser.</p>
+    </PopoverContent>
+  </Popover>
+);
+
+export default CaptionSettings;
@@ -0,0 +1,48 @@
+import { cn } from "@/lib/utils";
+import type { CaptionContrast, CaptionPreferences, CaptionSize } from "@/hooks/use-caption-preferences";
+
+interface CaptionsOverlayProps {
+  agentName: string;
+  // The agent's current utterance, or null between replies
+  text: string | null;
+  isSpeaking: boolean;
+  preferences: CaptionPreferences;
+}
+
+const sizeStyles: Record<CaptionSize, string> = {
+  medium: "text-lg",
+  large: "text-2xl",
+  "extra-large": "text-4xl",
+};
+
+const contrastStyles: Record<CaptionContrast, string> = {
+  standard: "bg-black/60 text-white",
+  high: "bg-black text-yellow-300 border-2 border-white",
+};
+
+// The live region is always rendered while captions are on, because screen
+// readers only announce changes to a region that was already on the page.
+const CaptionsOverlay = ({ agentName, text, isSpeaking, preferences }: CaptionsOverlayProps) => (
+  <div
+    role="status"
+    aria-live="polite"
+    aria-atomic="true"
+    aria-label={`Captions for ${agentName}`}
+    className="w-full min-h-[3rem]"
+  >
+    {text && (
+      <p
+        className={cn(
+          "mx-auto max-w-2xl rounded-lg px-4 py-2 text-center font-semibold leading-snug transition-opacity motion-reduce:transition-none",
+          sizeStyles[preferences.size],
+          contrastStyles[preferences.contrast],
+          !isSpeaking && preferences.contrast === "standard" && "opacity-70",
+        )}
+      >
+        {text}
+      </p>
+    )}
+  </div>
+);
+
+export default CaptionsOverlay;
@@ -0,0 +1,95 @@
+import { ExternalLink, StickyNote, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "./ui/sheet";
+import type { SummaryCard, UrlPanel } from "@/lib/client-tools";
+
+interface ClientToolOutputsProps {
+  notes: string[];
+  summaryCards: SummaryCard[];
+  urlPanel: UrlPanel | null;
+  onDismissSummaryCard: (index: number) => void;
+  onCloseUrlPanel: () => void;
+}
+
+const ClientToolOutputs = ({
+  notes,
+  summaryCards,
+  urlPanel,
+  onDismissSummaryCard,
+  onCloseUrlPanel,
+}: ClientToolOutputsProps) => {
+  return (
+    <>
+      {summaryCards.map((card, index) => (
+        <Card key={index} className="w-full text-left">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0 p-4 pb-2">
+            <CardTitle className="text-base">{card.title}</CardTitle>
+            <Button
+              onClick={() => onDismissSummaryCard(index)}
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label="Dismiss summary"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </CardHeader>
+          <CardContent className="p-4 pt-0">
+            <ul className="list-disc pl-5 space-y-1 text-sm text-card-foreground">
+              {card.points.map((point, pointIndex) => (
+                <li key={pointIndex}>{point}</li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      ))}
+
+      {notes.length > 0 && (
+        <div className="w-full rounded-xl border border-white/20 bg-black/30 backdrop-blur-sm px-4 py-3 space-y-2">
+          <h4 className="flex items-center text-sm font-semibold text-white">
+            <StickyNote className="mr-2 h-4 w-4" />
+            Notes
+          </h4>
+          <ul className="space-y-1 text-sm text-white/90">
+            {notes.map((note, index) => (
+              <li key={index} className="rounded-md bg-white/10 px-3 py-2">
+                {note}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Sheet open={urlPanel !== null} onOpenChange={(open) => !open && onCloseUrlPanel()}>
+        <SheetContent className="w-full sm:max-w-2xl flex flex-col">
+          <SheetHeader>
+            <SheetTitle>{urlPanel?.title || "Shared link"}</SheetTitle>
+            <SheetDescription className="truncate">
+              <a
+                href={urlPanel?.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center underline"
+              >
+                {urlPanel?.url}
+                <ExternalLink className="ml-1 h-3 w-3" />
+              </a>
+            </SheetDescription>
+          </SheetHeader>
+          {urlPanel && (
+            // Without allow-same-origin the page runs as an opaque origin and can't read this app's storage
+            <iframe
+              src={urlPanel.url}
+              title={urlPanel.title || urlPanel.url}
+              className="flex-1 w-full rounded-md border border-border"
+              sandbox="allow-scripts allow-popups allow-forms"
+            />
+          )}
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+};
+
+export default ClientToolOutputs;
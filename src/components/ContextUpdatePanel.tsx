@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { ClipboardList, Send } from "lucide-react";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { ScrollArea } from "./ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "./ui/sheet";
+
+// Long enough for a pasted org chart, short enough not to swamp the agent's prompt
+const MAX_CONTEXT_UPDATE_LENGTH = 4000;
+
+interface ContextUpdatePanelProps {
+  agentName: string;
+  updates: string[];
+  onSend: (text: string) => void;
+}
+
+const ContextUpdatePanel = ({ agentName, updates, onSend }: ContextUpdatePanelProps) => {
+  const [text, setText] = useState("");
+
+  const send = () => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      return;
+    }
+    onSend(trimmed);
+    setText("");
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" className="bg-white/10 text-white border-white/30 hover:bg-white/20 hover:text-white">
+          <ClipboardList className="mr-2 h-4 w-4" />
+          Share Context
+          {updates.length > 0 && <span className="ml-2 text-white/70">({updates.length})</span>}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Workshop Context</SheetTitle>
+          <SheetDescription>
+            Give {agentName} background without saying it out loud. It is taken into account from the next reply
+            and does not interrupt the agent.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="context-update">Notes or pasted text</Label>
+          <Textarea
+            id="context-update"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault();
+                send();
+              }
+            }}
+            placeholder="e.g. The client's CFO has final sign-off, and the budget is capped at 50k"
+            maxLength={MAX_CONTEXT_UPDATE_LENGTH}
+            rows={8}
+          />
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-muted-foreground">
+              {text.length}/{MAX_CONTEXT_UPDATE_LENGTH} · Ctrl+Enter to send
+            </span>
+            <Button onClick={send} disabled={!text.trim()}>
+              <Send className="mr-2 h-4 w-4" />
+              Send to Agent
+            </Button>
+          </div>
+        </div>
+
+        {updates.length > 0 && (
+          <div className="flex min-h-0 flex-1 flex-col gap-2">
+            <h4 className="text-sm font-semibold">Shared this session</h4>
+            <ScrollArea className="flex-1">
+              <ul className="space-y-2 pr-3">
+                {[...updates].reverse().map((update, index) => (
+                  <li
+                    key={updates.length - index}
+                    className="rounded-md border border-border bg-muted/50 p-2 text-sm whitespace-pre-wrap break-words"
+                  >
+                    {update}
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ContextUpdatePanel;
@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { FileText, Loader2 } from "lucide-react";
+import TranscriptPanel from "./TranscriptPanel";
+import SessionSummaryPanel from "./SessionSummaryPanel";
+import ConversationRecordings from "./ConversationRecordings";
+import TranscriptExportMenu from "./TranscriptExportMenu";
+import type { SeekRequest } from "./RecordingPlayer";
+import { Button } from "./ui/button";
+import { useToast } from "./ui/use-toast";
+import {
+  END_REASON_LABELS,
+  fetchConversationTranscript,
+  saveConversationSummary,
+  summarizeConversation,
+  type StoredConversation,
+} from "@/lib/conversations";
+import type { SessionSummary } from "@/lib/summarizer";
+import type { TranscriptEntry } from "@/lib/transcript";
+
+interface ConversationDetailProps {
+  conversation: StoredConversation;
+  onSummaryChange: (summary: SessionSummary) => void;
+}
+
+const ConversationDetail = ({ conversation, onSummaryChange }: ConversationDetailProps) => {
+  const { toast } = useToast();
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [isPlayable, setIsPlayable] = useState(false);
+  const [activeEntryId, setActiveEntryId] = useState<string | null>(null);
+  const [seekRequest, setSeekRequest] = useState<SeekRequest | null>(null);
+  const title = conversation.squad ? `Squad session with ${conversation.agentName}` : conversation.agentName;
+
+  // For conversations from before summaries existed, or whose summary failed
+  const createSummary = async () => {
+    setIsSummarizing(true);
+    try {
+      onSummaryChange(await summarizeConversation(conversation.id, conversation.agentName));
+    } catch (error) {
+      toast({
+        title: "Summary Failed",
+        description: error instanceof Error ? error.message : "Could not summarize this conversation",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSummarizing(false);
+    }
+  };
+
+  const saveSummary = async (summary: SessionSummary) => {
+    await saveConversationSummary(conversation.id, summary);
+    onSummaryChange(summary);
+  };
+
+  const selectEntry = useCallback((entry: TranscriptEntry) => {
+    setActiveEntryId(entry.id);
+    setSeekRequest({ entryId: entry.id });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setActiveEntryId(null);
+    setSeekRequest(null);
+
+    fetchConversationTranscript(conversation.id)
+      .then((entries) => {
+        if (!cancelled) {
+          setTranscript(entries);
+        }
+      })
+      .catch((error) => {
+        toast({
+          title: "Error loading transcript",
+          description: error.message,
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversation.id, toast]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-bold text-white">{title}</h2>
+          <p className="text-white/70 text-sm">
+            {format(conversation.startedAt, "PPpp")}
+            {conversation.endedAt && ` – ${format(conversation.endedAt, "p")}`}
+            {conversation.endReason && ` · ${END_REASON_LABELS[conversation.endReason]}`}
+          </p>
+        </div>
+        <TranscriptExportMenu
+          conversation={conversation}
+          transcript={transcript}
+          disabled={loading || transcript.length === 0}
+        />
+      </div>
+
+      {conversation.summary ? (
+        <SessionSummaryPanel
+          key={conversation.id}
+          summary={conversation.summary}
+          title={`${title}, ${format(conversation.startedAt, "PP")}`}
+          onSave={saveSummary}
+        />
+      ) : (
+        !loading && transcript.length > 0 && (
+          <Button onClick={createSummary} disabled={isSummarizing} variant="secondary">
+            {isSummarizing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FileText className="mr-2 h-4 w-4" />
+            )}
+            Create Summary
+          </Button>
+        )
+      )}
+
+      <ConversationRecordings
+        conversationId={conversation.id}
+        transcript={transcript}
+        agentName={conversation.agentName}
+        seekRequest={seekRequest}
+        onActiveEntryChange={setActiveEntryId}
+        onPlayableChange={setIsPlayable}
+      />
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 text-white animate-spin" />
+        </div>
+      ) : (
+        <TranscriptPanel
+          entries={transcript}
+          agentName={conversation.agentName}
+          activeEntryId={activeEntryId}
+          onEntrySelect={isPlayable ? selectEntry : undefined}
+          className="max-h-[60vh]"
+        />
+      )}
+    </div>
+  );
+};
+
+export default ConversationDetail;
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Loader2, RefreshCw } from "lucide-react";
+import { Button } from "./ui/button";
+import { useToast } from "./ui/use-toast";
+import RecordingPlayer, { type SeekRequest } from "./RecordingPlayer";
+import {
+  fetchConversationRecordings,
+  storeConversationRecordings,
+  type ConversationRecording,
+} from "@/lib/recordings";
+import type { TranscriptEntry } from "@/lib/transcript";
+
+interface ConversationRecordingsProps {
+  conversationId: string;
+  transcript: TranscriptEntry[];
+  agentName: string;
+  seekRequest: SeekRequest | null;
+  onActiveEntryChange: (entryId: string | null) => void;
+  // Tells the transcript whether there is audio to seek in
+  onPlayableChange: (playable: boolean) => void;
+}
+
+// Renders nothing for conversations that were not recorded
+const ConversationRecordings = ({
+  conversationId,
+  transcript,
+  agentName,
+  seekRequest,
+  onActiveEntryChange,
+  onPlayableChange,
+}: ConversationRecordingsProps) => {
+  const { toast } = useToast();
+  const [recordings, setRecordings] = useState<ConversationRecording[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const loadRecordings = useCallback(
+    () =>
+      fetchConversationRecordings(conversationId)
+        .then(setRecordings)
+        .catch((error) => {
+          toast({
+            title: "Error loading recordings",
+            description: error.message,
+            variant: "destructive",
+          });
+        }),
+    [conversationId, toast],
+  );
+
+  useEffect(() => {
+    setRecordings([]);
+    loadRecordings();
+  }, [loadRecordings]);
+
+  const playable = recordings.some(({ url }) => url !== null);
+  useEffect(() => {
+    onPlayableChange(playable);
+  }, [playable, onPlayableChange]);
+
+  // The upload after a call gives up after a minute or so, or if the tab was closed
+  const checkAgain = async () => {
+    setIsChecking(true);
+    try {
+      const pending = await storeConversationRecordings(conversationId);
+      await loadRecordings();
+      if (pending > 0) {
+        toast({
+          title: "Still Processing",
+          description: "The recording isn't ready yet. Try again in a minute",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Recording Not Fetched",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (recordings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full rounded-xl border border-white/20 bg-black/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-white/20">
+        <h4 className="text-sm font-semibold text-white">Recording</h4>
+        {recordings.some(({ status }) => status === "pending") && (
+          <Button
+            onClick={checkAgain}
+            disabled={isChecking}
+            variant="ghost"
+            size="sm"
+            className="text-white/80 hover:text-white hover:bg-white/10"
+          >
+            {isChecking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Check again
+          </Button>
+        )}
+      </div>
+      <ol className="space-y-3 px-4 py-3">
+        {recordings.map((recording, index) => (
+          <li key={recording.id} className="space-y-1">
+            {/* Reconnects and handoffs each start a new part */}
+            {recordings.length > 1 && (
+              <p className="text-xs text-white/60">
+                Part {index + 1}
+                {recording.agentName && ` · ${recording.agentName}`} · {format(recording.createdAt, "p")}
+              </p>
+            )}
+            {recording.url ? (
+              <RecordingPlayer
+                url={recording.url}
+                startedAt={recording.createdAt}
+                nextStartedAt={recordings[index + 1]?.createdAt ?? null}
+                transcript={transcript}
+                agentName={recording.agentName ?? agentName}
+                seekRequest={seekRequest}
+                onActiveEntryChange={onActiveEntryChange}
+              />
+            ) : (
+              <p className="text-sm text-white/60">
+                {recording.status === "unavailable"
+                  ? recording.detail ?? "This recording could not be fetched"
+                  : "The recording is still being processed"}
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default ConversationRecordings;
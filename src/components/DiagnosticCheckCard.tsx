@@ -0,0 +1,29 @@
+import type { ReactNode } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import DiagnosticStatusBadge from "./DiagnosticStatusBadge";
+import type { DiagnosticResult } from "@/lib/diagnostics";
+
+interface DiagnosticCheckCardProps {
+  title: string;
+  description: string;
+  result?: DiagnosticResult;
+  children: ReactNode;
+}
+
+const DiagnosticCheckCard = ({ title, description, result, children }: DiagnosticCheckCardProps) => (
+  <Card>
+    <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+      <div className="space-y-1.5">
+        <CardTitle className="text-lg">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </div>
+      <DiagnosticStatusBadge status={result?.status} />
+    </CardHeader>
+    <CardContent className="space-y-4">
+      {children}
+      {result && <p className="text-sm text-muted-foreground">{result.detail}</p>}
+    </CardContent>
+  </Card>
+);
+
+export default DiagnosticCheckCard;
@@ -0,0 +1,32 @@
+import { CheckCircle2, AlertTriangle, XCircle } from "lucide-react";
+import type { DiagnosticStatus } from "@/lib/diagnostics";
+
+const statusStyles: Record<DiagnosticStatus, { label: string; className: string; icon: typeof CheckCircle2 }> = {
+  pass: { label: "Pass", className: "bg-emerald-100 text-emerald-800", icon: CheckCircle2 },
+  warn: { label: "Warning", className: "bg-amber-100 text-amber-800", icon: AlertTriangle },
+  fail: { label: "Fail", className: "bg-red-100 text-red-800", icon: XCircle },
+};
+
+interface DiagnosticStatusBadgeProps {
+  status?: DiagnosticStatus;
+}
+
+const DiagnosticStatusBadge = ({ status }: DiagnosticStatusBadgeProps) => {
+  if (!status) {
+    return (
+      <span className="inline-flex items-center rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-semibold text-gray-600">
+        Not run
+      </span>
+    );
+  }
+
+  const { label, className, icon: Icon } = statusStyles[status];
+  return (
+    <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-semibold ${className}`}>
+      <Icon className="mr-1 h-3 w-3" />
+      {label}
+    </span>
+  );
+};
+
+export default DiagnosticStatusBadge;
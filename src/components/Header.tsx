@@ -1,4 +1,5 @@
-import { Settings, LogOut, User } from "lucide-react";
+import { useState } from "react";
+import { Settings, LogOut, User, History, UserPen, Timer, Stethoscope } from "lucide-react";
 import { Button } from "./ui/button";
 import {
   DropdownMenu,
@@ -12,16 +13,27 @@ import kyndrylLogo from "@/assets/kyndryl-logo.png";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
+import ProfileDialog from "./ProfileDialog";
+import ActiveCallIndicator from "./ActiveCallIndicator";
+import SessionSettingsDialog from "./SessionSettingsDialog";
+import { useConversationManager } from "@/hooks/use-conversation-manager";
 
 interface HeaderProps {
-  onConfigClick: () => void;
+  onConfigClick?: () => void;
   userEmail?: string;
+  onProfileSaved?: () => void;
 }
 
-const Header = ({ onConfigClick, userEmail }: HeaderProps) => {
+const Header = ({ onConfigClick, userEmail, onProfileSaved }: HeaderProps) => {
   const navigate = useNavigate();
+  const [showProfile, setShowProfile] = useState(false);
+  const [showSessionSettings, setShowSessionSettings] = useState(false);
+  const { isInCall, endSession } = useConversationManager();
 
   const handleSignOut = async () => {
+    if (isInCall) {
+      await endSession();
+    }
     const { error } = await supabase.auth.signOut();
     if (error) {
       toast.error("Error signing out");
@@ -35,21 +47,37 @@ const Header = ({ onConfigClick, userEmail }: HeaderProps) => {
     <header className="fixed top-0 left-0 right-0 z-40 bg-white border-b border-gray-200">
       <div className="container mx-auto px-4 h-16 flex items-center justify-between">
         <div className="flex items-center gap-3">
-          <img 
-            src={kyndrylLogo} 
-            alt="Kyndryl" 
-            className="h-8 w-auto"
-          />
+          <button onClick={() => navigate("/")} aria-label="Home">
+            <img 
+              src={kyndrylLogo} 
+              alt="Kyndryl" 
+              className="h-8 w-auto"
+            />
+          </button>
         </div>
         <div className="flex items-center gap-2">
+          <ActiveCallIndicator />
+
           <Button
-            onClick={onConfigClick}
+            onClick={() => navigate("/history")}
             variant="ghost"
             size="icon"
             className="hover:bg-gray-100 text-primary"
+            aria-label="Conversation history"
           >
-            <Settings className="h-5 w-5" />
+            <History className="h-5 w-5" />
           </Button>
+
+          {onConfigClick && (
+            <Button
+              onClick={onConfigClick}
+              variant="ghost"
+              size="icon"
+              className="hover:bg-gray-100 text-primary"
+            >
+              <Settings className="h-5 w-5" />
+            </Button>
+          )}
           
           {userEmail && (
             <DropdownMenu>
@@ -66,6 +94,18 @@ const Header = ({ onConfigClick, userEmail }: HeaderProps) => {
                   </div>
                 </DropdownMenuLabel>
                 <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => setShowProfile(true)}>
+                  <UserPen className="mr-2 h-4 w-4" />
+                  Profile
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowSessionSettings(true)}>
+                  <Timer className="mr-2 h-4 w-4" />
+                  Session Settings
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => navigate("/diagnostics")}>
+                  <Stethoscope className="mr-2 h-4 w-4" />
+                  Diagnostics
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={handleSignOut} className="text-destructive focus:text-destructive">
                   <LogOut className="mr-2 h-4 w-4" />
                   Sign Out
@@ -75,6 +115,12 @@ const Header = ({ onConfigClick, userEmail }: HeaderProps) => {
           )}
         </div>
       </div>
+      {userEmail && (
+        <>
+          <ProfileDialog open={showProfile} onOpenChange={setShowProfile} onSaved={onProfileSaved} />
+          <SessionSettingsDialog open={showSessionSettings} onOpenChange={setShowSessionSettings} />
+        </>
+      )}
     </header>
   );
 };
@@ -0,0 +1,21 @@
+import { Button } from "./ui/button";
+
+interface ListeningConfirmationProps {
+  question: string;
+  onAnswer: (heard: boolean) => void;
+}
+
+// Only the user can tell whether sound actually came out of their speakers
+const ListeningConfirmation = ({ question, onAnswer }: ListeningConfirmationProps) => (
+  <div className="flex flex-wrap items-center gap-3">
+    <p className="text-sm font-medium">{question}</p>
+    <Button size="sm" onClick={() => onAnswer(true)}>
+      Yes
+    </Button>
+    <Button size="sm" variant="outline" onClick={() => onAnswer(false)}>
+      No
+    </Button>
+  </div>
+);
+
+export default ListeningConfirmation;
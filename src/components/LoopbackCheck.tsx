@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { Repeat } from "lucide-react";
+import { Button } from "./ui/button";
+import DiagnosticCheckCard from "./DiagnosticCheckCard";
+import ListeningConfirmation from "./ListeningConfirmation";
+import { openMicrophone, playClip, recordClip, stopStream } from "@/lib/audio-test";
+import type { DiagnosticResult } from "@/lib/diagnostics";
+
+const RECORDING_DURATION_MS = 4000;
+
+type LoopbackStep = "idle" | "recording" | "playing" | "confirming";
+
+interface LoopbackCheckProps {
+  inputDeviceId?: string;
+  outputDeviceId?: string;
+  result?: DiagnosticResult;
+  onResult: (result: DiagnosticResult) => void;
+}
+
+const LoopbackCheck = ({ inputDeviceId, outputDeviceId, result, onResult }: LoopbackCheckProps) => {
+  const [step, setStep] = useState<LoopbackStep>("idle");
+
+  const runCheck = async () => {
+    if (typeof MediaRecorder === "undefined") {
+      onResult({ status: "fail", detail: "This browser cannot record audio" });
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    try {
+      stream = await openMicrophone(inputDeviceId);
+      setStep("recording");
+      const clip = await recordClip(stream, RECORDING_DURATION_MS);
+      stopStream(stream);
+      stream = null;
+
+      setStep("playing");
+      await playClip(clip, outputDeviceId);
+      setStep("confirming");
+    } catch (error) {
+      setStep("idle");
+      onResult({ status: "fail", detail: `Loopback test failed: ${error instanceof Error ? error.message : error}` });
+    } finally {
+      if (stream) {
+        stopStream(stream);
+      }
+    }
+  };
+
+  return (
+    <DiagnosticCheckCard
+      title="Record and Playback"
+      description="Records four seconds from your microphone and plays it back, just as an agent would hear you."
+      result={result}
+    >
+      <Button onClick={runCheck} disabled={step === "recording" || step === "playing"} variant="outline">
+        <Repeat className="mr-2 h-4 w-4" />
+        {step === "recording"
+          ? "Recording... say something"
+          : step === "playing"
+            ? "Playing back..."
+            : result ? "Test Again" : "Record and Play Back"}
+      </Button>
+      {step === "confirming" && (
+        <ListeningConfirmation
+          question="Did you hear your recording clearly?"
+          onAnswer={(heard) => {
+            setStep("idle");
+            onResult(
+              heard
+                ? { status: "pass", detail: "The recording played back clearly" }
+                : { status: "fail", detail: "The recording was not heard clearly" },
+            );
+          }}
+        />
+      )}
+    </DiagnosticCheckCard>
+  );
+};
+
+export default LoopbackCheck;
@@ -0,0 +1,97 @@
+import { useEffect, useRef, useState } from "react";
+import { Mic } from "lucide-react";
+import { Button } from "./ui/button";
+import { Progress } from "./ui/progress";
+import DiagnosticCheckCard from "./DiagnosticCheckCard";
+import { openMicrophone, readLevel, stopStream } from "@/lib/audio-test";
+import type { DiagnosticResult } from "@/lib/diagnostics";
+
+const TEST_DURATION_MS = 5000;
+const PASS_LEVEL = 0.05;
+const WARN_LEVEL = 0.01;
+
+interface MicLevelCheckProps {
+  inputDeviceId?: string;
+  result?: DiagnosticResult;
+  onResult: (result: DiagnosticResult) => void;
+}
+
+const MicLevelCheck = ({ inputDeviceId, result, onResult }: MicLevelCheckProps) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [level, setLevel] = useState(0);
+  const stopRef = useRef<() => void>();
+
+  useEffect(() => () => stopRef.current?.(), []);
+
+  const runCheck = async () => {
+    let stream: MediaStream;
+    try {
+      stream = await openMicrophone(inputDeviceId);
+    } catch (error) {
+      onResult({ status: "fail", detail: `Could not open the microphone: ${error instanceof Error ? error.message : error}` });
+      return;
+    }
+
+    setIsRunning(true);
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    context.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    const startedAt = performance.now();
+    let peak = 0;
+    let frame = 0;
+
+    const stop = () => {
+      cancelAnimationFrame(frame);
+      stopStream(stream);
+      context.close();
+      stopRef.current = undefined;
+      setIsRunning(false);
+      setLevel(0);
+    };
+    stopRef.current = stop;
+
+    const tick = () => {
+      const current = readLevel(analyser, samples);
+      peak = Math.max(peak, current);
+      setLevel(current);
+
+      if (performance.now() - startedAt < TEST_DURATION_MS) {
+        frame = requestAnimationFrame(tick);
+        return;
+      }
+
+      stop();
+      const peakPercent = Math.round(Math.min(peak / PASS_LEVEL, 1) * 100);
+      onResult(
+        peak >= PASS_LEVEL
+          ? { status: "pass", detail: `Your voice came through clearly (${stream.getAudioTracks()[0]?.label || "default microphone"})` }
+          : peak >= WARN_LEVEL
+            ? { status: "warn", detail: `Very quiet input, peaking at ${peakPercent}% of a normal speaking level. Move closer or raise the input volume` }
+            : { status: "fail", detail: "No sound was picked up. Check the microphone is not muted" },
+      );
+    };
+    frame = requestAnimationFrame(tick);
+  };
+
+  return (
+    <DiagnosticCheckCard
+      title="Microphone"
+      description="Speak normally for five seconds to check your voice is picked up."
+      result={result}
+    >
+      <Progress
+        value={Math.min(level / PASS_LEVEL, 1) * 100}
+        aria-label="Microphone level"
+        className="h-3"
+      />
+      <Button onClick={runCheck} disabled={isRunning} variant="outline">
+        <Mic className="mr-2 h-4 w-4" />
+        {isRunning ? "Listening..." : result ? "Test Again" : "Test Microphone"}
+      </Button>
+    </DiagnosticCheckCard>
+  );
+};
+
+export default MicLevelCheck;
@@ -0,0 +1,122 @@
+import { CheckCircle2, Keyboard, MicOff } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { detectBrowser, type BrowserName } from "@/lib/browser";
+import type { MicrophonePermission } from "@/hooks/use-microphone-permission";
+
+const RECOVERY_STEPS: Record<BrowserName, { name: string; steps: string[] }> = {
+  chrome: {
+    name: "Chrome",
+    steps: [
+      "Click the site settings icon to the left of the address bar.",
+      "Turn on Microphone, or set it to Allow.",
+      "If asked, reload the page.",
+    ],
+  },
+  edge: {
+    name: "Edge",
+    steps: [
+      "Click the lock icon to the left of the address bar.",
+      "Open Permissions for this site and set Microphone to Allow.",
+      "If asked, reload the page.",
+    ],
+  },
+  firefox: {
+    name: "Firefox",
+    steps: [
+      "Click the crossed-out microphone icon in the address bar.",
+      "Clear the Blocked Temporarily or Blocked setting next to Use the Microphone.",
+      "Press Try Again below and choose Allow.",
+    ],
+  },
+  safari: {
+    name: "Safari",
+    steps: [
+      "Open Safari > Settings for This Website, or Settings > Websites > Microphone.",
+      "Set Microphone for this site to Allow.",
+      "Press Try Again below.",
+    ],
+  },
+  other: {
+    name: "your browser",
+    steps: [
+      "Open the site settings or permissions for this page.",
+      "Allow access to the microphone.",
+      "Press Try Again below.",
+    ],
+  },
+};
+
+interface MicrophoneRecoveryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  permission: MicrophonePermission;
+  agentName?: string;
+  onRetry: () => void;
+  onStart: () => void;
+  onUseText: () => void;
+}
+
+const MicrophoneRecoveryDialog = ({
+  open,
+  onOpenChange,
+  permission,
+  agentName,
+  onRetry,
+  onStart,
+  onUseText,
+}: MicrophoneRecoveryDialogProps) => {
+  const { name, steps } = RECOVERY_STEPS[detectBrowser()];
+  const isGranted = permission === "granted";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {isGranted ? (
+              <CheckCircle2 className="h-5 w-5 text-emerald-600" />
+            ) : (
+              <MicOff className="h-5 w-5 text-destructive" />
+            )}
+            {isGranted ? "Microphone Ready" : "Microphone Blocked"}
+          </DialogTitle>
+          <DialogDescription>
+            {isGranted
+              ? `Microphone access is on. You can start talking to ${agentName} now.`
+              : `Voice conversations need your microphone. To allow it in ${name}:`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isGranted && (
+          <ol className="list-decimal pl-5 space-y-2 text-sm">
+            {steps.map((step) => (
+              <li key={step}>{step}</li>
+            ))}
+          </ol>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onUseText}>
+            <Keyboard className="mr-2 h-4 w-4" />
+            Chat by Text Instead
+          </Button>
+          {isGranted ? (
+            <Button onClick={onStart}>Start Conversation</Button>
+          ) : (
+            <Button onClick={onRetry}>Try Again</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MicrophoneRecoveryDialog;
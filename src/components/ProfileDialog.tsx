@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { z } from "zod";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { useUserProfile } from "@/hooks/use-user-profile";
+
+const profileSchema = z.object({
+  displayName: z.string().trim().max(100, "Display name must be less than 100 characters"),
+  company: z.string().trim().max(100, "Company must be less than 100 characters"),
+  role: z.string().trim().max(100, "Role must be less than 100 characters"),
+  industry: z.string().trim().max(100, "Industry must be less than 100 characters"),
+});
+
+interface ProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+const ProfileDialog = ({ open, onOpenChange, onSaved }: ProfileDialogProps) => {
+  const { profile, saveProfile } = useUserProfile();
+  const [displayName, setDisplayName] = useState("");
+  const [company, setCompany] = useState("");
+  const [role, setRole] = useState("");
+  const [industry, setIndustry] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && profile) {
+      setDisplayName(profile.displayName);
+      setCompany(profile.company);
+      setRole(profile.role);
+      setIndustry(profile.industry);
+    }
+  }, [open, profile]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = profileSchema.safeParse({ displayName, company, role, industry });
+    if (!validation.success) {
+      toast.error(validation.error.errors[0].message);
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveProfile({
+      displayName: validation.data.displayName,
+      company: validation.data.company,
+      role: validation.data.role,
+      industry: validation.data.industry,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    toast.success("Profile saved");
+    onSaved?.();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Your Profile</DialogTitle>
+          <DialogDescription>
+            Agents can use these details to tailor conversations. Each agent card shows exactly which ones it receives.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="profile-display-name">Display name</Label>
+            <Input
+              id="profile-display-name"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              maxLength={100}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-company">Company</Label>
+            <Input
+              id="profile-company"
+              value={company}
+              onChange={(e) => setCompany(e.target.value)}
+              maxLength={100}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-role">Role</Label>
+            <Input
+              id="profile-role"
+              placeholder="e.g., Head of Infrastructure"
+              value={role}
+              onChange={(e) => setRole(e.target.value)}
+              maxLength={100}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-industry">Industry</Label>
+            <Input
+              id="profile-industry"
+              placeholder="e.g., Financial Services"
+              value={industry}
+              onChange={(e) => setIndustry(e.target.value)}
+              maxLength={100}
+              disabled={saving}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Saving..." : "Save Profile"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProfileDialog;
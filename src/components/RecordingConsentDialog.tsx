@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Label } from "./ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { PROVIDER_AUDIO_NOTICE, RECORDING_CONSENT_TEXT } from "@/lib/recordings";
+
+interface RecordingConsentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  agentName?: string;
+  onAccept: () => Promise<void>;
+  onDecline: () => void;
+}
+
+const RecordingConsentDialog = ({ open, onOpenChange, agentName, onAccept, onDecline }: RecordingConsentDialogProps) => {
+  const [agreed, setAgreed] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Consent is given per session, never carried over from the last one
+  useEffect(() => {
+    if (open) {
+      setAgreed(false);
+    }
+  }, [open]);
+
+  const accept = async () => {
+    setIsSaving(true);
+    try {
+      await onAccept();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record this conversation?</DialogTitle>
+          <DialogDescription>
+            Recording starts when you connect to {agentName ?? "the agent"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm">{RECORDING_CONSENT_TEXT}</p>
+          <p className="text-sm text-muted-foreground">{PROVIDER_AUDIO_NOTICE}</p>
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="recording-consent"
+              checked={agreed}
+              onCheckedChange={(checked) => setAgreed(checked === true)}
+              className="mt-0.5"
+            />
+            <Label htmlFor="recording-consent" className="font-normal leading-snug">
+              I agree to this conversation being recorded
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onDecline} disabled={isSaving}>
+            Start Without Recording
+          </Button>
+          <Button onClick={accept} disabled={!agreed || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Record and Start
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordingConsentDialog;
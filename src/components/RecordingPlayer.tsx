@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from "react";
+import SpeakerTimeline from "./SpeakerTimeline";
+import { buildPlaybackTurns, findTurnAt } from "@/lib/playback";
+import type { TranscriptEntry } from "@/lib/transcript";
+
+// Extra room after the last turn while the real length is still loading
+const PROVISIONAL_TAIL_SECONDS = 10;
+
+export interface SeekRequest {
+  entryId: string;
+}
+
+interface RecordingPlayerProps {
+  url: string;
+  startedAt: Date;
+  nextStartedAt: Date | null;
+  transcript: TranscriptEntry[];
+  agentName: string;
+  // A new object each time, so clicking the same turn twice seeks twice
+  seekRequest: SeekRequest | null;
+  onActiveEntryChange: (entryId: string | null) => void;
+}
+
+const seekAudio = (audio: HTMLAudioElement | null, time: number) => {
+  if (!audio) {
+    return;
+  }
+  audio.currentTime = time;
+  audio.play().catch((error) => console.warn("Recording playback blocked:", error));
+};
+
+const RecordingPlayer = ({
+  url,
+  startedAt,
+  nextStartedAt,
+  transcript,
+  agentName,
+  seekRequest,
+  onActiveEntryChange,
+}: RecordingPlayerProps) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const reportedEntryIdRef = useRef<string | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const provisionalTurns = buildPlaybackTurns(transcript, startedAt, nextStartedAt, Infinity);
+  const timelineLength = duration ?? (provisionalTurns.at(-1)?.start ?? 0) + PROVISIONAL_TAIL_SECONDS;
+  const turns = buildPlaybackTurns(transcript, startedAt, nextStartedAt, timelineLength);
+
+  // Read by the seek effect, which should only run for new requests
+  const turnsRef = useRef(turns);
+  turnsRef.current = turns;
+
+  const seek = (time: number) => seekAudio(audioRef.current, time);
+
+  // Reported only as this part plays, so a paused part doesn't steal the highlight
+  const updatePosition = () => {
+    const time = audioRef.current?.currentTime ?? 0;
+    setCurrentTime(time);
+    const entryId = findTurnAt(turns, time)?.entryId ?? null;
+    if (entryId !== reportedEntryIdRef.current) {
+      reportedEntryIdRef.current = entryId;
+      onActiveEntryChange(entryId);
+    }
+  };
+
+  useEffect(() => {
+    // Requests for turns in other parts are left to their own player
+    const turn = seekRequest && turnsRef.current.find(({ entryId }) => entryId === seekRequest.entryId);
+    if (turn) {
+      seekAudio(audioRef.current, turn.start);
+    }
+  }, [seekRequest]);
+
+  return (
+    <div className="space-y-2">
+      <audio
+        ref={audioRef}
+        controls
+        preload="metadata"
+        src={url}
+        className="w-full"
+        onLoadedMetadata={(e) => {
+          // Some encodings only report their length once played through
+          const { duration } = e.currentTarget;
+          setDuration(Number.isFinite(duration) ? duration : null);
+        }}
+        onTimeUpdate={updatePosition}
+        onSeeked={updatePosition}
+      >
+        Your browser can't play this recording.
+      </audio>
+      {turns.length > 0 && (
+        <SpeakerTimeline
+          turns={turns}
+          agentName={agentName}
+          duration={timelineLength}
+          currentTime={currentTime}
+          onSeek={seek}
+        />
+      )}
+    </div>
+  );
+};
+
+export default RecordingPlayer;
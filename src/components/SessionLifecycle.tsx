@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation } from "react-router-dom";
+import { Timer } from "lucide-react";
+import { Button } from "./ui/button";
+import { useToast } from "./ui/use-toast";
+import { useConversationManager } from "@/hooks/use-conversation-manager";
+
+const IDLE_WARNING_SECONDS = 30;
+
+// Ends the shared session when the user leaves it behind: on navigation (if
+// they asked for that), when the tab closes, and after a stretch of silence.
+const SessionLifecycle = () => {
+  const manager = useConversationManager();
+  const location = useLocation();
+  const { toast } = useToast();
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const lastActivityRef = useRef(Date.now());
+  const pathnameRef = useRef(location.pathname);
+  // The manager is rebuilt every render, so listeners read the latest one from here
+  const managerRef = useRef(manager);
+  managerRef.current = manager;
+
+  const isConnected = manager.status === "connected";
+  const { endOnNavigate, idleTimeoutMinutes } = manager.sessionPreferences;
+
+  useEffect(() => {
+    if (pathnameRef.current === location.pathname) {
+      return;
+    }
+    pathnameRef.current = location.pathname;
+
+    const { isInCall, activeAgent, endSession } = managerRef.current;
+    // Otherwise the call carries on and stays reachable from the header
+    if (isInCall && endOnNavigate) {
+      endSession("navigation");
+      toast({
+        title: "Conversation Ended",
+        description: `Your conversation with ${activeAgent?.agentName} ended when you left the page`,
+      });
+    }
+  }, [location.pathname, endOnNavigate, toast]);
+
+  useEffect(() => {
+    if (!manager.isInCall) {
+      return;
+    }
+
+    // Ask before closing the tab, then hang up properly if the user goes anyway
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    const handlePageHide = () => managerRef.current.endSessionOnUnload();
+
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    window.addEventListener("pagehide", handlePageHide);
+    return () => {
+      window.removeEventListener("beforeunload", handleBeforeUnload);
+      window.removeEventListener("pagehide", handlePageHide);
+    };
+  }, [manager.isInCall]);
+
+  const resetIdleTimer = () => {
+    lastActivityRef.current = Date.now();
+    setSecondsLeft(null);
+  };
+
+  useEffect(resetIdleTimer, [manager.transcript.length, manager.isSpeaking, manager.isTalking, isConnected]);
+
+  useEffect(() => {
+    if (!isConnected || idleTimeoutMinutes === 0) {
+      setSecondsLeft(null);
+      return;
+    }
+
+    const timeoutMs = idleTimeoutMinutes * 60_000;
+    const timer = setInterval(() => {
+      const { isSpeaking, activeAgent, endSession } = managerRef.current;
+      if (isSpeaking) {
+        lastActivityRef.current = Date.now();
+      }
+
+      const remaining = Math.ceil((lastActivityRef.current + timeoutMs - Date.now()) / 1000);
+      if (remaining > 0) {
+        setSecondsLeft(remaining <= IDLE_WARNING_SECONDS ? remaining : null);
+        return;
+      }
+
+      clearInterval(timer);
+      setSecondsLeft(null);
+      endSession("idle_timeout");
+      toast({
+        title: "Conversation Ended",
+        description: `Your conversation with ${activeAgent?.agentName} ended after ${idleTimeoutMinutes} min of silence`,
+      });
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [isConnected, idleTimeoutMinutes, toast]);
+
+  if (secondsLeft === null) {
+    return null;
+  }
+
+  return (
+    <div
+      role="alert"
+      className="fixed bottom-6 left-1/2 z-50 flex w-[min(32rem,calc(100%-2rem))] -translate-x-1/2 items-center gap-4 rounded-xl border border-border bg-background p-4 shadow-lg"
+    >
+      <Timer className="h-5 w-5 shrink-0 text-primary" />
+      <p className="flex-1 text-sm">
+        It has gone quiet. Your conversation with {manager.activeAgent?.agentName} ends in{" "}
+        <span className="font-semibold tabular-nums">{secondsLeft}s</span>.
+      </p>
+      <Button
+        size="sm"
+        onClick={() => {
+          resetIdleTimer();
+          manager.sendUserActivity();
+        }}
+      >
+        Keep Talking
+      </Button>
+    </div>
+  );
+};
+
+export default SessionLifecycle;
@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { Loader2, Star } from "lucide-react";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { MAX_RATING_COMMENT_LENGTH } from "@/lib/feedback";
+import { cn } from "@/lib/utils";
+
+const RATING_LABELS = ["Poor", "Fair", "Good", "Very good", "Excellent"];
+
+interface SessionRatingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  agentName?: string;
+  onSubmit: (rating: number, comment: string) => Promise<void>;
+}
+
+const SessionRatingDialog = ({ open, onOpenChange, agentName, onSubmit }: SessionRatingDialogProps) => {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start every prompt blank rather than showing the last session's answer
+  useEffect(() => {
+    if (open) {
+      setRating(0);
+      setComment("");
+    }
+  }, [open]);
+
+  const submit = async () => {
+    setIsSaving(true);
+    try {
+      await onSubmit(rating, comment);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>How was your conversation?</DialogTitle>
+          <DialogDescription>
+            Rate your session with {agentName ?? "the agent"}. Your rating helps us improve our agents.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex justify-center gap-1" role="radiogroup" aria-label="Rating">
+              {RATING_LABELS.map((label, index) => {
+                const value = index + 1;
+                return (
+                  <button
+                    key={label}
+                    type="button"
+                    role="radio"
+                    aria-checked={rating === value}
+                    aria-label={`${value} star${value > 1 ? "s" : ""}, ${label}`}
+                    onClick={() => setRating(value)}
+                    className="rounded-md p-1 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  >
+                    <Star
+                      className={cn(
+                        "h-8 w-8 transition-colors",
+                        value <= rating ? "fill-amber-400 text-amber-400" : "text-muted-foreground",
+                      )}
+                    />
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-center text-sm text-muted-foreground h-5">
+              {rating > 0 && RATING_LABELS[rating - 1]}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rating-comment">Comment (optional)</Label>
+            <Textarea
+              id="rating-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="What went well, or what could be better?"
+              maxLength={MAX_RATING_COMMENT_LENGTH}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Skip
+          </Button>
+          <Button onClick={submit} disabled={rating === 0 || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Submit Rating
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SessionRatingDialog;
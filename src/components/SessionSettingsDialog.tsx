@@ -0,0 +1,80 @@
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { IDLE_TIMEOUT_OPTIONS } from "@/hooks/use-session-preferences";
+import { useConversationManager } from "@/hooks/use-conversation-manager";
+
+interface SessionSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SessionSettingsDialog = ({ open, onOpenChange }: SessionSettingsDialogProps) => {
+  const { sessionPreferences, updateSessionPreferences } = useConversationManager();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Session Settings</DialogTitle>
+          <DialogDescription>
+            Choose when conversations should end without you pressing End. Saved on this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="end-on-navigate">End calls when I change page</Label>
+              <p className="text-xs text-muted-foreground">
+                When off, the call keeps running and can be ended from the header.
+              </p>
+            </div>
+            <Switch
+              id="end-on-navigate"
+              checked={sessionPreferences.endOnNavigate}
+              onCheckedChange={(endOnNavigate) => updateSessionPreferences({ endOnNavigate })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="idle-timeout">End after silence</Label>
+            <Select
+              value={String(sessionPreferences.idleTimeoutMinutes)}
+              onValueChange={(value) => updateSessionPreferences({ idleTimeoutMinutes: Number(value) })}
+            >
+              <SelectTrigger id="idle-timeout">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IDLE_TIMEOUT_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes === 0 ? "Never" : `${minutes} minute${minutes === 1 ? "" : "s"}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              You get a 30 second warning before the call is ended.
+            </p>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SessionSettingsDialog;
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { ClipboardCopy, Loader2, Pencil, Plus, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { useToast } from "./ui/use-toast";
+import { formatSummaryAsMarkdown, isSummaryEmpty, type ActionItem, type SessionSummary } from "@/lib/summarizer";
+
+interface SessionSummaryPanelProps {
+  summary: SessionSummary;
+  // Heading of the copied Markdown
+  title: string;
+  // Editing is offered when this is set
+  onSave?: (summary: SessionSummary) => Promise<void>;
+}
+
+const toLines = (items: string[]) => items.join("\n");
+
+const fromLines = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const SummarySection = ({ heading, items }: { heading: string; items: string[] }) => (
+  <div className="space-y-1">
+    <h5 className="text-xs font-semibold uppercase tracking-wide text-white/60">{heading}</h5>
+    {items.length === 0 ? (
+      <p className="text-sm text-white/50">None</p>
+    ) : (
+      <ul className="list-disc space-y-1 pl-5 text-sm text-white/90">
+        {items.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const SessionSummaryPanel = ({ summary, title, onSave }: SessionSummaryPanelProps) => {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [keyPoints, setKeyPoints] = useState("");
+  const [decisions, setDecisions] = useState("");
+  const [actionItems, setActionItems] = useState<ActionItem[]>([]);
+
+  const startEditing = () => {
+    setKeyPoints(toLines(summary.keyPoints));
+    setDecisions(toLines(summary.decisions));
+    setActionItems(summary.actionItems);
+    setIsEditing(true);
+  };
+
+  const updateActionItem = (index: number, changes: Partial<ActionItem>) =>
+    setActionItems((current) => current.map((item, itemIndex) => (itemIndex === index ? { ...item, ...changes } : item)));
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await onSave?.({
+        keyPoints: fromLines(keyPoints),
+        decisions: fromLines(decisions),
+        actionItems: actionItems
+          .map(({ task, owner }) => ({ task: task.trim(), owner: owner?.trim() || null }))
+          .filter(({ task }) => task),
+      });
+      setIsEditing(false);
+    } catch (error) {
+      toast({
+        title: "Summary Not Saved",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const copySummary = async () => {
+    try {
+      await navigator.clipboard.writeText(formatSummaryAsMarkdown(summary, title));
+      toast({
+        title: "Summary Copied",
+        description: "Paste it into your notes or an email",
+      });
+    } catch {
+      toast({
+        title: "Copy Failed",
+        description: "Your browser blocked clipboard access",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="w-full rounded-xl border border-white/20 bg-black/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-white/20">
+        <h4 className="text-sm font-semibold text-white">Session Summary</h4>
+        {!isEditing && (
+          <div className="flex gap-1">
+            {onSave && (
+              <Button
+                onClick={startEditing}
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-white/80 hover:text-white hover:bg-white/10"
+                aria-label="Edit summary"
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              onClick={copySummary}
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-white/80 hover:text-white hover:bg-white/10"
+              aria-label="Copy summary"
+            >
+              <ClipboardCopy className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-4 px-4 py-3">
+          <div className="space-y-1">
+            <Label htmlFor="summary-key-points" className="text-white">Key points, one per line</Label>
+            <Textarea
+              id="summary-key-points"
+              value={keyPoints}
+              onChange={(e) => setKeyPoints(e.target.value)}
+              className="bg-white text-gray-900"
+              rows={4}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="summary-decisions" className="text-white">Decisions, one per line</Label>
+            <Textarea
+              id="summary-decisions"
+              value={decisions}
+              onChange={(e) => setDecisions(e.target.value)}
+              className="bg-white text-gray-900"
+              rows={3}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-white">Action items</Label>
+            {actionItems.map((item, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  value={item.task}
+                  onChange={(e) => updateActionItem(index, { task: e.target.value })}
+                  placeholder="Task"
+                  className="flex-1 bg-white text-gray-900"
+                  aria-label={`Action item ${index + 1}`}
+                />
+                <Input
+                  value={item.owner ?? ""}
+                  onChange={(e) => updateActionItem(index, { owner: e.target.value })}
+                  placeholder="Owner"
+                  className="w-32 bg-white text-gray-900"
+                  aria-label={`Owner of action item ${index + 1}`}
+                />
+                <Button
+                  onClick={() => setActionItems((current) => current.filter((_, itemIndex) => itemIndex !== index))}
+                  variant="ghost"
+                  size="icon"
+                  className="text-white/80 hover:text-white hover:bg-white/10"
+                  aria-label={`Remove action item ${index + 1}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              onClick={() => setActionItems((current) => [...current, { task: "", owner: null }])}
+              variant="link"
+              className="px-0 text-white/90 hover:text-white"
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add action item
+            </Button>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button onClick={() => setIsEditing(false)} variant="secondary" disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Summary
+            </Button>
+          </div>
+        </div>
+      ) : isSummaryEmpty(summary) ? (
+        <p className="px-4 py-4 text-sm text-white/60 text-center">
+          Nothing stood out in this conversation to summarize
+        </p>
+      ) : (
+        <div className="space-y-3 px-4 py-3">
+          <SummarySection heading="Key points" items={summary.keyPoints} />
+          <SummarySection heading="Decisions" items={summary.decisions} />
+          <SummarySection
+            heading="Action items"
+            items={summary.actionItems.map(({ task, owner }) => (owner ? `${task} (${owner})` : task))}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionSummaryPanel;
@@ -0,0 +1,46 @@
+import { ShieldCheck } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import type { SharedProfileValue } from "@/lib/user-context";
+
+interface SharedContextNoticeProps {
+  agentName: string;
+  values: SharedProfileValue[];
+}
+
+const SharedContextNotice = ({ agentName, values }: SharedContextNoticeProps) => {
+  // Blank fields are sent empty, which shares nothing
+  const shared = values.filter(({ value }) => value);
+  if (shared.length === 0) {
+    return (
+      <p className="flex items-center justify-center text-white/70 text-sm">
+        <ShieldCheck className="mr-1 h-4 w-4" />
+        No profile details are shared with this agent
+      </p>
+    );
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger className="inline-flex items-center text-white/80 text-sm underline-offset-4 hover:underline">
+        <ShieldCheck className="mr-1 h-4 w-4" />
+        Sharing {shared.map(({ label }) => label.toLowerCase()).join(", ")}
+      </PopoverTrigger>
+      <PopoverContent className="w-72">
+        <p className="text-sm font-medium mb-2">Shared with {agentName}</p>
+        <dl className="space-y-1 text-sm">
+          {shared.map(({ field, label, value }) => (
+            <div key={field} className="flex justify-between gap-4">
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="font-medium text-right truncate">{value}</dd>
+            </div>
+          ))}
+        </dl>
+        <p className="text-xs text-muted-foreground mt-3">
+          Update these details from Profile in the account menu.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SharedContextNotice;
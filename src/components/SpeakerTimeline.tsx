@@ -0,0 +1,86 @@
+import { Area, AreaChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartLegend, ChartLegendContent, type ChartConfig } from "./ui/chart";
+import { formatPlaybackTime, type PlaybackTurn } from "@/lib/playback";
+
+interface SpeakerTimelineProps {
+  turns: PlaybackTurn[];
+  agentName: string;
+  duration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+interface TimelinePoint {
+  time: number;
+  user: number;
+  ai: number;
+}
+
+// Each turn becomes a step that is up for whoever is speaking, so the two
+// areas read as a bar of speaker changes across the recording.
+const toTimelinePoints = (turns: PlaybackTurn[], duration: number): TimelinePoint[] => [
+  { time: 0, user: 0, ai: 0 },
+  ...turns.map(({ start, speaker }) => ({
+    time: start,
+    user: speaker === "user" ? 1 : 0,
+    ai: speaker === "ai" ? 1 : 0,
+  })),
+  { time: duration, user: 0, ai: 0 },
+];
+
+const SpeakerTimeline = ({ turns, agentName, duration, currentTime, onSeek }: SpeakerTimelineProps) => {
+  const config: ChartConfig = {
+    user: { label: "You", color: "hsl(0 0% 100%)" },
+    ai: { label: agentName, color: "hsl(45 93% 58%)" },
+  };
+
+  return (
+    <ChartContainer
+      config={config}
+      className="aspect-auto h-28 w-full cursor-pointer [&_.recharts-cartesian-axis-tick_text]:fill-white/70"
+      role="img"
+      aria-label={`Who was speaking when, across ${formatPlaybackTime(duration)}`}
+    >
+      <AreaChart
+        data={toTimelinePoints(turns, duration)}
+        margin={{ top: 4, right: 8, bottom: 0, left: 8 }}
+        onClick={(state) => {
+          // Snaps to the start of the nearest turn
+          if (state?.activeLabel !== undefined) {
+            onSeek(Number(state.activeLabel));
+          }
+        }}
+      >
+        <XAxis
+          dataKey="time"
+          type="number"
+          domain={[0, duration]}
+          tickFormatter={formatPlaybackTime}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis hide domain={[0, 1]} />
+        <Area
+          dataKey="user"
+          type="stepAfter"
+          stroke="var(--color-user)"
+          fill="var(--color-user)"
+          fillOpacity={0.7}
+          isAnimationActive={false}
+        />
+        <Area
+          dataKey="ai"
+          type="stepAfter"
+          stroke="var(--color-ai)"
+          fill="var(--color-ai)"
+          fillOpacity={0.7}
+          isAnimationActive={false}
+        />
+        <ReferenceLine x={currentTime} stroke="hsl(0 0% 100%)" strokeWidth={2} />
+        <ChartLegend content={<ChartLegendContent className="text-white" />} />
+      </AreaChart>
+    </ChartContainer>
+  );
+};
+
+export default SpeakerTimeline;
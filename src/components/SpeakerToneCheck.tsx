@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Volume2 } from "lucide-react";
+import { Button } from "./ui/button";
+import DiagnosticCheckCard from "./DiagnosticCheckCard";
+import ListeningConfirmation from "./ListeningConfirmation";
+import { playTestTone } from "@/lib/audio-test";
+import type { DiagnosticResult } from "@/lib/diagnostics";
+
+const TONE_DURATION_MS = 1500;
+
+interface SpeakerToneCheckProps {
+  outputDeviceId?: string;
+  result?: DiagnosticResult;
+  onResult: (result: DiagnosticResult) => void;
+}
+
+const SpeakerToneCheck = ({ outputDeviceId, result, onResult }: SpeakerToneCheckProps) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [awaitingAnswer, setAwaitingAnswer] = useState(false);
+
+  const runCheck = async () => {
+    setIsPlaying(true);
+    setAwaitingAnswer(false);
+    try {
+      await playTestTone(TONE_DURATION_MS, outputDeviceId);
+      setAwaitingAnswer(true);
+    } catch (error) {
+      onResult({ status: "fail", detail: `Could not play the tone: ${error instanceof Error ? error.message : error}` });
+    } finally {
+      setIsPlaying(false);
+    }
+  };
+
+  return (
+    <DiagnosticCheckCard
+      title="Speakers"
+      description="Plays a short tone on the speaker you use for conversations."
+      result={result}
+    >
+      <Button onClick={runCheck} disabled={isPlaying} variant="outline">
+        <Volume2 className="mr-2 h-4 w-4" />
+        {isPlaying ? "Playing..." : result ? "Play Again" : "Play Test Tone"}
+      </Button>
+      {awaitingAnswer && (
+        <ListeningConfirmation
+          question="Did you hear the tone?"
+          onAnswer={(heard) => {
+            setAwaitingAnswer(false);
+            onResult(
+              heard
+                ? { status: "pass", detail: "The test tone was heard" }
+                : { status: "fail", detail: "The test tone was not heard. Check the speaker volume and output device" },
+            );
+          }}
+        />
+      )}
+    </DiagnosticCheckCard>
+  );
+};
+
+export default SpeakerToneCheck;
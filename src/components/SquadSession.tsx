@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { ArrowRight, Keyboard, Loader2, Users } from "lucide-react";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import type { AgentSessionConfig } from "@/contexts/conversation-context";
+import { useConversationManager } from "@/hooks/use-conversation-manager";
+
+interface SquadSessionProps {
+  agents: AgentSessionConfig[];
+}
+
+const SquadSession = ({ agents }: SquadSessionProps) => {
+  const manager = useConversationManager();
+  // Agent row ids in the order the user picked them, which is the handoff order
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const selectedAgents = selectedIds
+    .map((id) => agents.find((agent) => agent.agentRowId === id))
+    .filter(Boolean);
+
+  const toggleAgent = (agentRowId: string, checked: boolean) => {
+    setSelectedIds((current) =>
+      checked ? [...current, agentRowId] : current.filter((id) => id !== agentRowId)
+    );
+  };
+
+  const squad = manager.isInCall ? manager.squad : null;
+  if (squad) {
+    const position = squad.findIndex((agent) => agent.agentRowId === manager.activeAgent?.agentRowId);
+    const nextAgent = squad[position + 1];
+    const isBusy = manager.isInitializing || manager.status !== "connected";
+
+    return (
+      <section className="bg-card/50 backdrop-blur-sm border border-border rounded-2xl p-6 shadow-card space-y-4">
+        <h2 className="flex items-center text-xl font-bold text-white">
+          <Users className="mr-2 h-5 w-5" />
+          Squad Session
+        </h2>
+        <ol className="flex flex-wrap items-center gap-2" aria-label="Squad order">
+          {squad.map((agent, index) => (
+            <li key={agent.agentRowId} className="flex items-center gap-2">
+              {index > 0 && <ArrowRight className="h-4 w-4 text-white/60" />}
+              <span
+                className={`rounded-full px-3 py-1 text-sm ${
+                  index === position
+                    ? "bg-white text-primary font-semibold"
+                    : index < position
+                      ? "bg-white/10 text-white/60 line-through"
+                      : "bg-white/10 text-white"
+                }`}
+                aria-current={index === position ? "step" : undefined}
+              >
+                {agent.agentName}
+              </span>
+            </li>
+          ))}
+        </ol>
+        <div className="flex flex-wrap gap-3">
+          {nextAgent && (
+            <Button onClick={() => manager.handOff(nextAgent)} disabled={isBusy}>
+              {manager.isInitializing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Hand off to {nextAgent.agentName}
+            </Button>
+          )}
+          <Button onClick={() => manager.endSession()} variant="secondary">
+            End Squad Session
+          </Button>
+        </div>
+        <p className="text-white/70 text-sm">
+          Each agent is briefed with a short summary of the conversation so far.
+        </p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="bg-card/50 backdrop-blur-sm border border-border rounded-2xl p-6 shadow-card space-y-4">
+      <div>
+        <h2 className="flex items-center text-xl font-bold text-white">
+          <Users className="mr-2 h-5 w-5" />
+          Squad Session
+        </h2>
+        <p className="text-white/80 text-sm">
+          Pick agents in the order you want to talk to them. Each one picks up where the last left off.
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-4">
+        {agents.map((agent) => {
+          const order = selectedIds.indexOf(agent.agentRowId);
+          return (
+            <label key={agent.agentRowId} className="flex items-center gap-2 text-white cursor-pointer">
+              <Checkbox
+                checked={order !== -1}
+                onCheckedChange={(checked) => toggleAgent(agent.agentRowId, checked === true)}
+                className="border-white data-[state=checked]:bg-white data-[state=checked]:text-primary"
+              />
+              {agent.agentName}
+              {order !== -1 && <span className="text-white/60 text-xs">#{order + 1}</span>}
+            </label>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap gap-3">
+        <Button
+          onClick={() => manager.startSquadSession(selectedAgents, "voice")}
+          disabled={selectedAgents.length < 2 || manager.isInitializing}
+        >
+          Start Squad Session
+        </Button>
+        <Button
+          onClick={() => manager.startSquadSession(selectedAgents, "text")}
+          disabled={selectedAgents.length < 2 || manager.isInitializing}
+          variant="link"
+          className="text-white/90 hover:text-white"
+        >
+          <Keyboard className="mr-2 h-4 w-4" />
+          Chat by text instead
+        </Button>
+      </div>
+    </section>
+  );
+};
+
+export default SquadSession;
@@ -0,0 +1,46 @@
+import { useState } from "react";
+import { Send } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+
+interface TextChatInputProps {
+  onSend: (message: string) => void;
+  onTyping?: () => void;
+  disabled?: boolean;
+}
+
+const TextChatInput = ({ onSend, onTyping, disabled }: TextChatInputProps) => {
+  const [message, setMessage] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = message.trim();
+    if (!trimmed) {
+      return;
+    }
+    onSend(trimmed);
+    setMessage("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex w-full gap-2">
+      <Input
+        placeholder="Type a message..."
+        value={message}
+        onChange={(e) => {
+          setMessage(e.target.value);
+          onTyping?.();
+        }}
+        className="bg-white text-gray-900 placeholder:text-gray-500"
+        maxLength={2000}
+        disabled={disabled}
+        aria-label="Message"
+      />
+      <Button type="submit" size="icon" disabled={disabled || !message.trim()} aria-label="Send message">
+        <Send className="h-4 w-4" />
+      </Button>
+    </form>
+  );
+};
+
+export default TextChatInput;
@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { useToast } from "./ui/use-toast";
+import { fetchConversationAgents, type StoredConversation } from "@/lib/conversations";
+import {
+  TRANSCRIPT_EXPORT_FORMATS,
+  downloadTranscript,
+  type TranscriptExportFormat,
+} from "@/lib/transcript-export";
+import type { TranscriptEntry } from "@/lib/transcript";
+
+interface TranscriptExportMenuProps {
+  conversation: StoredConversation;
+  transcript: TranscriptEntry[];
+  disabled?: boolean;
+}
+
+const TranscriptExportMenu = ({ conversation, transcript, disabled = false }: TranscriptExportMenuProps) => {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportAs = async (exportFormat: TranscriptExportFormat) => {
+    setIsExporting(true);
+    try {
+      // Only the JSON export carries agent settings
+      const agents = exportFormat === "json" ? await fetchConversationAgents(conversation) : [];
+      downloadTranscript({ conversation, agents, entries: transcript }, exportFormat);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="secondary" disabled={disabled || isExporting}>
+          {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Export Transcript
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(TRANSCRIPT_EXPORT_FORMATS) as TranscriptExportFormat[]).map((exportFormat) => (
+          <DropdownMenuItem key={exportFormat} onClick={() => exportAs(exportFormat)}>
+            {TRANSCRIPT_EXPORT_FORMATS[exportFormat].label}
+            <span className="ml-auto pl-4 text-xs text-muted-foreground">
+              .{TRANSCRIPT_EXPORT_FORMATS[exportFormat].extension}
+            </span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default TranscriptExportMenu;
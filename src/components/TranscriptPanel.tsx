@@ -0,0 +1,143 @@
+import { useEffect, useRef } from "react";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+import type { MessageFeedbackRating } from "@/lib/feedback";
+import { formatTranscriptTime, type TranscriptEntry, type TranscriptSource } from "@/lib/transcript";
+import { cn } from "@/lib/utils";
+
+const entryStyles: Record<TranscriptSource, { row: string; bubble: string }> = {
+  user: { row: "items-end", bubble: "bg-primary text-white" },
+  ai: { row: "items-start", bubble: "bg-white/90 text-gray-900" },
+  tool: { row: "items-center", bubble: "bg-white/10 text-white/80 font-mono text-xs" },
+  system: { row: "items-center", bubble: "bg-transparent text-white/70 italic text-center" },
+};
+
+const speakerLabels: Record<Exclude<TranscriptSource, "ai">, string> = {
+  user: "You",
+  tool: "Tool",
+  system: "System",
+};
+
+interface TranscriptPanelProps {
+  entries: TranscriptEntry[];
+  agentName: string;
+  className?: string;
+  // Turned off when captions already announce the agent, so nothing is read out twice
+  announce?: boolean;
+  // Agent turns get thumbs up and down buttons when this is set
+  feedback?: Record<string, MessageFeedbackRating>;
+  onFeedback?: (entry: TranscriptEntry, rating: MessageFeedbackRating) => void;
+  // Set by the recording player: the turn playing is highlighted and clicking a turn seeks to it
+  activeEntryId?: string | null;
+  onEntrySelect?: (entry: TranscriptEntry) => void;
+}
+
+const feedbackButtons: { rating: MessageFeedbackRating; label: string; Icon: typeof ThumbsUp }[] = [
+  { rating: "like", label: "Good response", Icon: ThumbsUp },
+  { rating: "dislike", label: "Bad response", Icon: ThumbsDown },
+];
+
+const TranscriptPanel = ({
+  entries,
+  agentName,
+  className,
+  announce = true,
+  feedback = {},
+  onFeedback,
+  activeEntryId = null,
+  onEntrySelect,
+}: TranscriptPanelProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest message in view as new turns arrive
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [entries]);
+
+  // Follow playback through a long transcript
+  useEffect(() => {
+    if (activeEntryId) {
+      scrollRef.current
+        ?.querySelector(`[data-entry-id="${activeEntryId}"]`)
+        ?.scrollIntoView({ block: "nearest" });
+    }
+  }, [activeEntryId]);
+
+  return (
+    <div className="w-full rounded-xl border border-white/20 bg-black/30 backdrop-blur-sm">
+      <div className="px-4 py-2 border-b border-white/20">
+        <h4 className="text-sm font-semibold text-white">Transcript</h4>
+      </div>
+      <div
+        ref={scrollRef}
+        className={cn("max-h-64 overflow-y-auto px-4 py-3 space-y-3", className)}
+        aria-live={announce ? "polite" : "off"}
+      >
+        {entries.length === 0 ? (
+          <p className="text-sm text-white/60 text-center py-4">
+            The conversation will appear here
+          </p>
+        ) : (
+          entries.map((entry) => (
+            <div
+              key={entry.id}
+              data-entry-id={entry.id}
+              className={`flex flex-col ${entryStyles[entry.source].row}`}
+            >
+              <div className="flex items-center gap-2 text-xs text-white/60">
+                <span className="font-medium text-white/80">
+                  {entry.source === "ai" ? entry.agentName ?? agentName : speakerLabels[entry.source]}
+                </span>
+                <span>{formatTranscriptTime(entry.timestamp)}</span>
+              </div>
+              {onEntrySelect && (entry.source === "user" || entry.source === "ai") ? (
+                <button
+                  type="button"
+                  onClick={() => onEntrySelect(entry)}
+                  aria-current={entry.id === activeEntryId ? "true" : undefined}
+                  aria-label={`Play from: ${entry.message}`}
+                  className={cn(
+                    "mt-1 max-w-[90%] rounded-lg px-3 py-2 text-sm text-left break-words transition-shadow hover:ring-2 hover:ring-white/60 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white",
+                    entryStyles[entry.source].bubble,
+                    entry.id === activeEntryId && "ring-2 ring-amber-400 hover:ring-amber-400",
+                  )}
+                >
+                  {entry.message}
+                </button>
+              ) : (
+                <p
+                  className={`mt-1 max-w-[90%] rounded-lg px-3 py-2 text-sm break-words ${entryStyles[entry.source].bubble}`}
+                >
+                  {entry.message}
+                </p>
+              )}
+              {onFeedback && entry.source === "ai" && (
+                <div className="mt-1 flex gap-1">
+                  {feedbackButtons.map(({ rating, label, Icon }) => (
+                    <button
+                      key={rating}
+                      type="button"
+                      onClick={() => onFeedback(entry, rating)}
+                      aria-label={label}
+                      aria-pressed={feedback[entry.id] === rating}
+                      className={cn(
+                        "rounded p-1 text-white/50 hover:text-white hover:bg-white/10 transition-colors",
+                        feedback[entry.id] === rating && "text-white",
+                      )}
+                    >
+                      <Icon className={cn("h-3.5 w-3.5", feedback[entry.id] === rating && "fill-current")} />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
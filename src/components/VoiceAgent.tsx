@@ -1,101 +1,95 @@
-import { useConversation } from "@11labs/react";
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { Button } from "./ui/button";
-import { Mic, MicOff, Loader2, User } from "lucide-react";
+import { Checkbox } from "./ui/checkbox";
+import { Label } from "./ui/label";
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
+import { Mic, MicOff, Loader2, User, Keyboard } from "lucide-react";
 import { useToast } from "./ui/use-toast";
+import TranscriptPanel from "./TranscriptPanel";
+import TextChatInput from "./TextChatInput";
+import AudioVisualizer from "./AudioVisualizer";
+import AudioControls from "./AudioControls";
+import SharedContextNotice from "./SharedContextNotice";
+import AgentHealthBadge from "./AgentHealthBadge";
+import ClientToolOutputs from "./ClientToolOutputs";
+import ContextUpdatePanel from "./ContextUpdatePanel";
+import SessionSummaryPanel from "./SessionSummaryPanel";
+import CaptionsOverlay from "./CaptionsOverlay";
+import CaptionSettings from "./CaptionSettings";
+import type { SessionOverrides } from "@/lib/agent-overrides";
+import type { AgentHealth } from "@/lib/agent-health";
+import { MAX_RECONNECT_ATTEMPTS } from "@/lib/connection";
+import type { SharedProfileValue } from "@/lib/user-context";
+import { VOICE_PROVIDERS, type VoiceProviderId } from "@/lib/voice-provider";
+import type { InputMode } from "@/contexts/conversation-context";
+import { useConversationManager } from "@/hooks/use-conversation-manager";
+import { useMediaDevices } from "@/hooks/use-media-devices";
 
 interface VoiceAgentProps {
-  agentId: string;
+  agentRowId: string;
   agentName: string;
   agentBio?: string;
   agentLlm?: string;
+  voiceProvider?: VoiceProviderId;
+  health?: AgentHealth;
+  clientTools?: string[];
+  sessionOverrides?: SessionOverrides;
+  sharedProfile?: SharedProfileValue[];
 }
 
-const VoiceAgent = ({ agentId, agentName, agentBio, agentLlm }: VoiceAgentProps) => {
+const VoiceAgent = ({
+  agentRowId,
+  agentName,
+  agentBio,
+  agentLlm,
+  voiceProvider = "elevenlabs",
+  health,
+  clientTools = [],
+  sessionOverrides,
+  sharedProfile = [],
+}: VoiceAgentProps) => {
   const { toast } = useToast();
-  const [isPermissionGranted, setIsPermissionGranted] = useState(false);
-  const [isInitializing, setIsInitializing] = useState(false);
-
-  const conversation = useConversation({
-    onConnect: () => {
-      console.log("Connected to agent");
-      toast({
-        title: "Connected",
-        description: `Now speaking with ${agentName}`,
-      });
-    },
-    onDisconnect: () => {
-      console.log("Disconnected from agent");
-    },
-    onError: (error) => {
-      console.error("Conversation error:", error);
-      toast({
-        title: "Connection Error",
-        description: "Failed to connect to the agent. Please try again.",
-        variant: "destructive",
-      });
-    },
-    onMessage: (message) => {
-      console.log("Message received:", message);
-    },
-  });
-
-  const requestMicrophoneAccess = async () => {
-    try {
-      await navigator.mediaDevices.getUserMedia({ audio: true });
-      setIsPermissionGranted(true);
-      toast({
-        title: "Microphone Access Granted",
-        description: "You can now start a conversation",
-      });
-    } catch (error) {
-      console.error("Microphone access denied:", error);
-      toast({
-        title: "Microphone Access Required",
-        description: "Please allow microphone access to use voice features",
-        variant: "destructive",
-      });
-    }
-  };
+  const manager = useConversationManager();
+  const [record, setRecord] = useState(false);
+  // Recordings are fetched from ElevenLabs after the call, so other providers can't be recorded
+  const canRecord = voiceProvider === "elevenlabs";
+  const { audioPreferences, updateAudioPreferences, captionPreferences } = manager;
 
-  const startConversation = async () => {
-    if (!isPermissionGranted) {
-      await requestMicrophoneAccess();
-      return;
-    }
-
-    setIsInitializing(true);
-    try {
-      await conversation.startSession({ 
-        agentId,
-        connectionType: 'webrtc'
-      });
-    } catch (error) {
-      console.error("Failed to start conversation:", error);
-      toast({
-        title: "Failed to Start",
-        description: "Could not connect to the agent",
-        variant: "destructive",
-      });
-    } finally {
-      setIsInitializing(false);
-    }
-  };
+  // The session is shared app-wide; this card only shows it while it belongs to this agent
+  const isActive = manager.activeAgent?.agentRowId === agentRowId;
+  const isConnected = isActive && manager.status === "connected";
+  const isInitializing = isActive && manager.isInitializing;
+  const reconnectAttempt = isActive ? manager.reconnectAttempt : 0;
+  const isReconnecting = reconnectAttempt > 0;
+  const isSpeaking = manager.isSpeaking;
+  const isTextMode = manager.inputMode === "text";
+  const lastDisconnect = isActive ? manager.lastDisconnect : null;
+  const transcript = isActive ? manager.transcript : [];
+  const sessionSummary = isActive && !isConnected && !isReconnecting ? manager.sessionSummary : null;
+  const showCaptions = isConnected && captionPreferences.enabled;
+  // The latest reply stays up until the user's next turn, so slower readers can finish it
+  const latestTurn = transcript.filter((entry) => entry.source === "ai" || entry.source === "user").at(-1);
+  const caption = latestTurn?.source === "ai" ? latestTurn.message : null;
+  const mediaDevices = useMediaDevices(manager.microphonePermission === "granted" || isConnected);
 
-  const stopConversation = async () => {
-    await conversation.endSession();
+  const startSession = (mode: InputMode) => {
+    manager.startSession(
+      { agentRowId, agentName, voiceProvider, clientTools, sessionOverrides, sharedProfile },
+      mode,
+      canRecord && mode === "voice" && record,
+    );
   };
 
-  useEffect(() => {
-    return () => {
-      if (conversation.status === "connected") {
-        conversation.endSession();
-      }
-    };
-  }, []);
-
-  const isConnected = conversation.status === "connected";
-  const isSpeaking = conversation.isSpeaking;
+  // A connected call switches over straight away; otherwise it applies from the next one
+  const changeAudioDevice = (changes: { inputDeviceId?: string } | { outputDeviceId?: string }) => {
+    updateAudioPreferences(changes);
+    toast({
+      title: isConnected ? "Audio Device Switched" : "Audio Device Saved",
+      description: isConnected
+        ? "Your conversation now uses the new device"
+        : "Your new device will be used from your next conversation",
+    });
+  };
 
   return (
     <div className="flex flex-col items-center gap-6">
@@ -103,14 +97,14 @@ const VoiceAgent = ({ agentId, agentName, agentBio, agentLlm }: VoiceAgentProps)
         {/* Outer glow effect when speaking */}
         {isConnected && isSpeaking && (
           <div
-            className="absolute inset-0 rounded-full bg-white/20 animate-pulse blur-2xl"
+            className="absolute inset-0 rounded-full bg-white/20 animate-pulse motion-reduce:animate-none blur-2xl"
             style={{ animationDuration: '1.5s' }}
           />
         )}
         
         {/* Main sound wave bubble */}
         <div
-          className={`relative rounded-full transition-all duration-500 flex items-center justify-center shadow-2xl ${
+          className={`relative rounded-full transition-all duration-500 motion-reduce:transition-none flex items-center justify-center shadow-2xl ${
             isConnected
               ? isSpeaking
                 ? "w-48 h-48 bg-white shadow-[0_0_60px_rgba(255,255,255,0.8)]"
@@ -119,40 +113,40 @@ const VoiceAgent = ({ agentId, agentName, agentBio, agentLlm }: VoiceAgentProps)
           }`}
         >
           {/* Person icon when not connected */}
-          {!isConnected && !isInitializing && (
+          {!isConnected && !isInitializing && !isReconnecting && (
             <User className="w-16 h-16 text-white" strokeWidth={1.5} />
           )}
           
-          {/* Sound wave bars */}
+          {/* Live audio levels for the user's mic and the agent's voice */}
           {isConnected && (
-            <div className="absolute inset-0 flex items-center justify-center gap-1.5">
-              {[...Array(5)].map((_, i) => (
-                <div
-                  key={i}
-                  className={`w-1.5 bg-primary rounded-full transition-all ${
-                    isSpeaking ? 'animate-pulse' : ''
-                  }`}
-                  style={{
-                    height: isSpeaking 
-                      ? `${30 + Math.abs(2 - i) * 15}%` 
-                      : '20%',
-                    animationDuration: `${0.6 + i * 0.1}s`,
-                    animationDelay: `${i * 0.05}s`,
-                  }}
-                />
-              ))}
-            </div>
+            <AudioVisualizer
+              isSpeaking={isSpeaking}
+              getInputVolume={manager.getInputVolume}
+              getOutputVolume={manager.getOutputVolume}
+              getInputFrequencyData={manager.getInputByteFrequencyData}
+              getOutputFrequencyData={manager.getOutputByteFrequencyData}
+            />
           )}
           
           {/* Loading state */}
-          {isInitializing && (
+          {(isInitializing || isReconnecting) && (
             <Loader2 className="w-12 h-12 text-primary animate-spin" />
           )}
         </div>
       </div>
 
+      {showCaptions && (
+        <CaptionsOverlay
+          agentName={agentName}
+          text={caption}
+          isSpeaking={isSpeaking}
+          preferences={captionPreferences}
+        />
+      )}
+
       <div className="text-center space-y-2">
         <h3 className="text-2xl font-bold text-white">{agentName}</h3>
+        {health && <AgentHealthBadge health={health} />}
         {agentBio && (
           <p className="text-white/90 text-base max-w-md mx-auto">
             {agentBio}
@@ -163,40 +157,181 @@ const VoiceAgent = ({ agentId, agentName, agentBio, agentLlm }: VoiceAgentProps)
             LLM: {agentLlm}
           </p>
         )}
+        {voiceProvider !== "elevenlabs" && (
+          <p className="text-white/70 text-sm font-medium">
+            Voice: {VOICE_PROVIDERS[voiceProvider].label}
+          </p>
+        )}
+        <SharedContextNotice agentName={agentName} values={sharedProfile} />
+        <CaptionSettings preferences={captionPreferences} onChange={manager.updateCaptionPreferences} />
         <p className="text-white/80 text-lg">
           {isConnected
             ? isSpeaking
               ? "Agent is speaking..."
-              : "Listening..."
-            : "Ready to connect"}
+              : isTextMode
+                ? "Chatting by text"
+                : "Listening..."
+            : isReconnecting
+              ? `Reconnecting... (attempt ${reconnectAttempt} of ${MAX_RECONNECT_ATTEMPTS})`
+              : "Ready to connect"}
         </p>
+        {isConnected && manager.connectionType === "websocket" && !manager.isTextOnlySession && (
+          <p className="text-white/60 text-sm">Connected over WebSocket (WebRTC unavailable)</p>
+        )}
+        {isConnected && manager.isRecording && (
+          <p className="flex items-center justify-center text-white/80 text-sm">
+            <span className="mr-2 h-2 w-2 rounded-full bg-red-500 animate-pulse motion-reduce:animate-none" />
+            Recording
+          </p>
+        )}
+        {!isConnected && lastDisconnect && (
+          <p className="text-white/60 text-sm" role="status">{lastDisconnect}</p>
+        )}
       </div>
 
-      {!isConnected ? (
-        <Button
-          onClick={startConversation}
-          disabled={isInitializing}
-          size="lg"
-          className="bg-primary hover:bg-primary/90 text-white px-10 py-7 text-xl font-bold rounded-xl transition-all shadow-[0_10px_40px_rgba(0,0,0,0.3)] hover:shadow-[0_15px_50px_rgba(0,0,0,0.4)] hover:scale-105"
-        >
-          {isInitializing ? (
-            <>
-              <Loader2 className="mr-2 h-6 w-6 animate-spin" />
-              Connecting...
-            </>
-          ) : (
-            "Start Conversation"
+      {!isConnected && !isReconnecting ? (
+        <div className="flex flex-col items-center gap-3">
+          <Button
+            onClick={() => startSession("voice")}
+            disabled={isInitializing}
+            size="lg"
+            className="bg-primary hover:bg-primary/90 text-white px-10 py-7 text-xl font-bold rounded-xl transition-all shadow-[0_10px_40px_rgba(0,0,0,0.3)] hover:shadow-[0_15px_50px_rgba(0,0,0,0.4)] hover:scale-105"
+          >
+            {isInitializing ? (
+              <>
+                <Loader2 className="mr-2 h-6 w-6 animate-spin" />
+                Connecting...
+              </>
+            ) : (
+              "Start Conversation"
+            )}
+          </Button>
+          <Button
+            onClick={() => startSession("text")}
+            disabled={isInitializing}
+            variant="link"
+            className="text-white/90 hover:text-white"
+          >
+            <Keyboard className="mr-2 h-4 w-4" />
+            Chat by text instead
+          </Button>
+          {canRecord && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`record-${agentRowId}`}
+                checked={record}
+                onCheckedChange={(checked) => setRecord(checked === true)}
+                disabled={isInitializing}
+                className="border-white data-[state=checked]:bg-white data-[state=checked]:text-primary"
+              />
+              <Label htmlFor={`record-${agentRowId}`} className="text-white/90 font-normal">
+                Record voice conversations
+              </Label>
+            </div>
           )}
-        </Button>
+          {manager.microphonePermission === "denied" && (
+            <p className="flex items-center text-white/70 text-sm">
+              <MicOff className="mr-1 h-4 w-4" />
+              Microphone blocked. Start Conversation shows how to allow it.
+            </p>
+          )}
+        </div>
       ) : (
         <Button
-          onClick={stopConversation}
+          onClick={() => manager.endSession()}
           size="lg"
           className="bg-white hover:bg-white/90 text-primary px-10 py-7 text-xl font-bold rounded-xl shadow-[0_10px_40px_rgba(0,0,0,0.3)]"
         >
-          End Conversation
+          {isReconnecting ? "Stop Reconnecting" : "End Conversation"}
         </Button>
       )}
+
+      {isConnected && !manager.isTextOnlySession && (
+        <ToggleGroup
+          type="single"
+          value={manager.inputMode}
+          onValueChange={(value) => value && manager.setInputMode(value as InputMode)}
+          className="rounded-lg bg-white/10 p-1"
+        >
+          <ToggleGroupItem value="voice" aria-label="Talk by voice" className="text-white data-[state=on]:bg-white data-[state=on]:text-primary">
+            {isTextMode ? <MicOff className="mr-2 h-4 w-4" /> : <Mic className="mr-2 h-4 w-4" />}
+            Voice
+          </ToggleGroupItem>
+          <ToggleGroupItem value="text" aria-label="Chat by text" className="text-white data-[state=on]:bg-white data-[state=on]:text-primary">
+            <Keyboard className="mr-2 h-4 w-4" />
+            Text
+          </ToggleGroupItem>
+        </ToggleGroup>
+      )}
+
+      {isConnected && !isTextMode && (
+        <AudioControls
+          inputs={mediaDevices.inputs}
+          outputs={mediaDevices.outputs}
+          canSelectOutput={mediaDevices.canSelectOutput}
+          inputDeviceId={audioPreferences.inputDeviceId}
+          outputDeviceId={audioPreferences.outputDeviceId}
+          onInputDeviceChange={(inputDeviceId) => changeAudioDevice({ inputDeviceId })}
+          onOutputDeviceChange={(outputDeviceId) => changeAudioDevice({ outputDeviceId })}
+          muted={manager.isMuted}
+          onMutedChange={manager.setIsMuted}
+          volume={manager.volume}
+          onVolumeChange={manager.setVolume}
+          pushToTalk={audioPreferences.pushToTalk}
+          onPushToTalkChange={(pushToTalk) => updateAudioPreferences({ pushToTalk })}
+          isTalking={manager.isTalking}
+        />
+      )}
+
+      {isConnected && isTextMode && (
+        <TextChatInput
+          onSend={manager.sendTextMessage}
+          onTyping={manager.sendUserActivity}
+        />
+      )}
+
+      {isConnected && (
+        <ContextUpdatePanel
+          agentName={agentName}
+          updates={manager.contextUpdates}
+          onSend={manager.sendContextUpdate}
+        />
+      )}
+
+      {isActive && (
+        <ClientToolOutputs
+          notes={manager.notes}
+          summaryCards={manager.summaryCards}
+          urlPanel={manager.urlPanel}
+          onDismissSummaryCard={manager.dismissSummaryCard}
+          onCloseUrlPanel={manager.closeUrlPanel}
+        />
+      )}
+
+      {sessionSummary?.status === "generating" && (
+        <p className="flex items-center text-white/70 text-sm" role="status">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Summarizing your conversation...
+        </p>
+      )}
+      {sessionSummary?.status === "failed" && (
+        <p className="text-white/70 text-sm" role="status">
+          The summary could not be made. You can create it later from History.
+        </p>
+      )}
+      {sessionSummary?.summary && (
+        <SessionSummaryPanel summary={sessionSummary.summary} title={`Conversation with ${agentName}`} />
+      )}
+
+      {(isConnected || transcript.length > 0) && (
+        <TranscriptPanel
+          entries={transcript}
+          agentName={agentName}
+          announce={!showCaptions}
+          feedback={manager.messageFeedback}
+          onFeedback={manager.rateMessage}
+        />
+      )}
     </div>
   );
 };
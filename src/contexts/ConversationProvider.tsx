@@ -0,0 +1,868 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { PUSH_TO_TALK_KEY } from "@/components/AudioControls";
+import SessionLifecycle from "@/components/SessionLifecycle";
+import MicrophoneRecoveryDialog from "@/components/MicrophoneRecoveryDialog";
+import SessionRatingDialog from "@/components/SessionRatingDialog";
+import RecordingConsentDialog from "@/components/RecordingConsentDialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAudioPreferences } from "@/hooks/use-audio-preferences";
+import { useSessionPreferences } from "@/hooks/use-session-preferences";
+import { useCaptionPreferences } from "@/hooks/use-caption-preferences";
+import { useMicrophonePermission } from "@/hooks/use-microphone-permission";
+import { useElevenLabsVoiceProvider } from "@/hooks/use-elevenlabs-voice-provider";
+import { useMockVoiceProvider } from "@/hooks/use-mock-voice-provider";
+import { createTranscriptEntry, type TranscriptEntry } from "@/lib/transcript";
+import {
+  createConversationRecord,
+  endConversationRecord,
+  endConversationRecordOnUnload,
+  recordConversationMessage,
+  summarizeConversation,
+  type ConversationEndReason,
+} from "@/lib/conversations";
+import {
+  buildClientTools,
+  formatClientToolCall,
+  type ClientToolCall,
+  type SummaryCard,
+  type UrlPanel,
+} from "@/lib/client-tools";
+import {
+  CONNECTION_TYPE_LABELS,
+  MAX_RECONNECT_ATTEMPTS,
+  TEXT_CONNECTION_TYPES,
+  VOICE_CONNECTION_TYPES,
+  describeDisconnect,
+  reconnectDelay,
+  shouldReconnect,
+  type ConnectionType,
+} from "@/lib/connection";
+import { recordMessageFeedback, saveConversationRating, type MessageFeedbackRating } from "@/lib/feedback";
+import { buildHandoffSummary } from "@/lib/handoff";
+import {
+  addConversationRecording,
+  logRecordingConsent,
+  storeConversationRecordingsWhenReady,
+} from "@/lib/recordings";
+import type { SessionSummary } from "@/lib/summarizer";
+import type {
+  VoiceProvider,
+  VoiceProviderEvents,
+  VoiceProviderId,
+  VoiceSessionOptions,
+} from "@/lib/voice-provider";
+import { toDynamicVariables } from "@/lib/user-context";
+import {
+  ConversationContext,
+  type AgentSessionConfig,
+  type ConversationManager,
+  type InputMode,
+  type SessionSummaryState,
+} from "./conversation-context";
+
+interface PendingStart {
+  agent: AgentSessionConfig;
+  mode: InputMode;
+  squad: AgentSessionConfig[] | null;
+  record?: boolean;
+  // Set once the user has agreed to the recording and their consent is logged
+  recordingConsentId?: string;
+}
+
+interface RatingPrompt {
+  conversationId: string;
+  // Null for squad sessions, whose rating covers every agent in them
+  agentRowId: string | null;
+  agentName: string;
+}
+
+// Owns the one live agent session for the whole app, so a call survives
+// navigation and two agents can never be connected at the same time.
+export const ConversationProvider = ({ children }: { children: ReactNode }) => {
+  const { toast } = useToast();
+  const [activeAgent, setActiveAgent] = useState<AgentSessionConfig | null>(null);
+  const [squad, setSquad] = useState<AgentSessionConfig[] | null>(null);
+  const [pendingStart, setPendingStart] = useState<PendingStart | null>(null);
+  // A voice start held back until the user unblocks the microphone
+  const [blockedStart, setBlockedStart] = useState<PendingStart | null>(null);
+  const [consentStart, setConsentStart] = useState<PendingStart | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const recordingConsentIdRef = useRef<string | null>(null);
+  const [isInitializing, setIsInitializing] = useState(false);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [messageFeedback, setMessageFeedback] = useState<Record<string, MessageFeedbackRating>>({});
+  const [ratingPrompt, setRatingPrompt] = useState<RatingPrompt | null>(null);
+  const [sessionSummary, setSessionSummary] = useState<SessionSummaryState | null>(null);
+  const [inputMode, setInputMode] = useState<InputMode>("voice");
+  const [isTextOnlySession, setIsTextOnlySession] = useState(false);
+  const [notes, setNotes] = useState<string[]>([]);
+  const [contextUpdates, setContextUpdates] = useState<string[]>([]);
+  const [summaryCards, setSummaryCards] = useState<SummaryCard[]>([]);
+  const [urlPanel, setUrlPanel] = useState<UrlPanel | null>(null);
+  const [isMuted, setIsMuted] = useState(false);
+  const [volume, setVolume] = useState(1);
+  const [isTalking, setIsTalking] = useState(false);
+  const [audioPreferences, updateAudioPreferences] = useAudioPreferences();
+  const [sessionPreferences, updateSessionPreferences] = useSessionPreferences();
+  const [captionPreferences, updateCaptionPreferences] = useCaptionPreferences();
+  const { permission: microphonePermission, requestAccess: requestMicrophoneAccess } = useMicrophonePermission();
+  const [connectionType, setConnectionType] = useState<ConnectionType | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [lastDisconnect, setLastDisconnect] = useState<string | null>(null);
+  // Resolves to the stored conversation row once onConnect has created it
+  const conversationRecordRef = useRef<Promise<string | null> | null>(null);
+  // The same row once resolved, for page unload where there is no time to await it
+  const conversationIdRef = useRef<string | null>(null);
+  // Transcript lines still being written, which the summary has to wait for
+  const messageWritesRef = useRef<Promise<string | null>[]>([]);
+  // Each line's write, resolving to its conversation row once stored. Votes wait
+  // on these, and they outlive the call so replies can still be rated afterwards.
+  const storedEntriesRef = useRef(new Map<string, Promise<string | null>>());
+  // The summary being made for the session on screen, so a late one for an earlier call is dropped
+  const summaryRequestRef = useRef<Promise<SessionSummary> | null>(null);
+  const accessTokenRef = useRef<string | null>(null);
+  // Why the app is ending the session, recorded in place of the SDK's "user"
+  const endReasonRef = useRef<ConversationEndReason | null>(null);
+  // SDK callbacks are bound when a session starts, so anything they read lives in refs
+  const activeAgentRef = useRef<AgentSessionConfig | null>(null);
+  const squadRef = useRef<AgentSessionConfig[] | null>(null);
+  const transcriptRef = useRef<TranscriptEntry[]>([]);
+  const notesRef = useRef<string[]>([]);
+  const contextUpdatesRef = useRef<string[]>([]);
+  // Set while one squad agent hangs up so the next can pick up the same conversation
+  const isHandingOffRef = useRef(false);
+  // Set while one call ends only to start another, which is no time to ask for a rating
+  const isSwitchingRef = useRef(false);
+  const sessionModeRef = useRef<InputMode>("voice");
+  const isConnectingRef = useRef(false);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const connectRef = useRef<(agent: AgentSessionConfig, mode: InputMode) => Promise<void>>();
+  const switchAgentRef = useRef<(agent: AgentSessionConfig) => void>();
+  const agentDirectoryRef = useRef<AgentSessionConfig[]>([]);
+
+  const appendTranscriptEntry = (entry: TranscriptEntry) => {
+    transcriptRef.current = [...transcriptRef.current, entry];
+    setTranscript(transcriptRef.current);
+    const agentRowId = activeAgentRef.current?.agentRowId ?? null;
+    const write = conversationRecordRef.current?.then(async (id) => {
+      if (id) {
+        await recordConversationMessage(id, entry, agentRowId);
+      }
+      return id;
+    });
+    if (write) {
+      messageWritesRef.current.push(write);
+      storedEntriesRef.current.set(entry.id, write);
+    }
+  };
+
+  const captureNote = (note: string) => {
+    notesRef.current = [...notesRef.current, note];
+    setNotes(notesRef.current);
+  };
+
+  // A reconnect or handoff starts a fresh agent session that has not seen them yet
+  const replayContextUpdates = () => {
+    contextUpdatesRef.current.forEach((text) => liveProvider().sendContextualUpdate(text));
+  };
+
+  const logClientToolCall = (call: ClientToolCall) => {
+    appendTranscriptEntry(createTranscriptEntry("tool", formatClientToolCall(call)));
+  };
+
+  // Summaries are built from the stored transcript once every line has been written
+  const summarizeSession = (conversationRecord: Promise<string | null>) => {
+    const agentName = activeAgentRef.current?.agentName ?? "Agent";
+    const hadTurns = transcriptRef.current.some(({ source }) => source === "user" || source === "ai");
+    const messageWrites = messageWritesRef.current;
+    messageWritesRef.current = [];
+    if (!hadTurns) {
+      return;
+    }
+
+    const request = conversationRecord.then(async (id) => {
+      if (!id) {
+        throw new Error("This conversation was not saved");
+      }
+      await Promise.all(messageWrites);
+      return summarizeConversation(id, agentName);
+    });
+    summaryRequestRef.current = request;
+    setSessionSummary({ status: "generating", summary: null });
+    request
+      .then((summary) => {
+        if (summaryRequestRef.current === request) {
+          setSessionSummary({ status: "ready", summary });
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to summarize conversation:", error);
+        if (summaryRequestRef.current === request) {
+          setSessionSummary({ status: "failed", summary: null });
+        }
+      });
+  };
+
+  const finishConversationRecord = (endReason: ConversationEndReason) => {
+    const conversationRecord = conversationRecordRef.current;
+    const wasRecorded = recordingConsentIdRef.current !== null;
+    conversationRecordRef.current = null;
+    conversationIdRef.current = null;
+    recordingConsentIdRef.current = null;
+    setIsRecording(false);
+    conversationRecord?.then((id) => {
+      if (id) {
+        endConversationRecord(id, endReason);
+        if (wasRecorded) {
+          storeConversationRecordingsWhenReady(id);
+        }
+      }
+    });
+    if (conversationRecord) {
+      summarizeSession(conversationRecord);
+    }
+  };
+
+  // Only conversations the agent actually took part in are worth rating
+  const promptForRating = (conversationRecord: Promise<string | null> | null) => {
+    const agent = activeAgentRef.current;
+    const squadAgents = squadRef.current;
+    const hadReply = transcriptRef.current.some((entry) => entry.source === "ai");
+    if (!conversationRecord || !agent || !hadReply || isSwitchingRef.current) {
+      return;
+    }
+    conversationRecord.then((conversationId) => {
+      if (conversationId) {
+        setRatingPrompt({
+          conversationId,
+          agentRowId: squadAgents ? null : agent.agentRowId,
+          agentName: squadAgents ? squadAgents.map(({ agentName }) => agentName).join(", ") : agent.agentName,
+        });
+      }
+    });
+  };
+
+  const scheduleReconnect = (attempt: number) => {
+    const agent = activeAgentRef.current;
+    if (attempt > MAX_RECONNECT_ATTEMPTS || !agent) {
+      setReconnectAttempt(0);
+      finishConversationRecord("error");
+      toast({
+        title: "Connection Lost",
+        description: `Could not reconnect to ${agent?.agentName ?? "the agent"} after ${MAX_RECONNECT_ATTEMPTS} attempts`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    reconnectAttemptRef.current = attempt;
+    setReconnectAttempt(attempt);
+    reconnectTimerRef.current = setTimeout(async () => {
+      reconnectTimerRef.current = null;
+      try {
+        await connectRef.current?.(agent, sessionModeRef.current);
+        replayContextUpdates();
+        setReconnectAttempt(0);
+      } catch {
+        scheduleReconnect(attempt + 1);
+      }
+    }, reconnectDelay(attempt));
+  };
+
+  const voiceEvents: VoiceProviderEvents = {
+    onConnect: ({ conversationId }) => {
+      const agent = activeAgentRef.current;
+      // Reconnects and squad handoffs continue the conversation that is already being recorded
+      const isContinuation = conversationRecordRef.current !== null;
+      if (!isContinuation && agent) {
+        const conversationRecord = createConversationRecord(
+          agent.agentRowId,
+          conversationId,
+          squadRef.current !== null,
+        );
+        conversationRecordRef.current = conversationRecord;
+        conversationRecord.then((id) => {
+          if (conversationRecordRef.current === conversationRecord) {
+            conversationIdRef.current = id;
+          }
+        });
+      }
+      // Each provider session is recorded separately. Only ElevenLabs keeps audio to fetch afterwards.
+      const consentId = recordingConsentIdRef.current;
+      if (consentId && agent?.voiceProvider === "elevenlabs") {
+        const connectedAt = new Date();
+        conversationRecordRef.current?.then((id) => {
+          if (id) {
+            addConversationRecording(id, consentId, agent.agentRowId, conversationId, connectedAt);
+          }
+        });
+      }
+      toast({
+        title: isHandingOffRef.current ? "Handed Over" : isContinuation ? "Reconnected" : "Connected",
+        description: `Now ${sessionModeRef.current === "text" ? "chatting" : "speaking"} with ${agent?.agentName}`,
+      });
+    },
+    onDisconnect: (details) => {
+      if (isHandingOffRef.current) {
+        return;
+      }
+      setLastDisconnect(describeDisconnect(details));
+      if (shouldReconnect(details)) {
+        scheduleReconnect(reconnectAttemptRef.current + 1);
+        return;
+      }
+      const endReason = details.reason === "user" ? endReasonRef.current ?? "user" : details.reason;
+      endReasonRef.current = null;
+      const conversationRecord = conversationRecordRef.current;
+      finishConversationRecord(endReason);
+      promptForRating(conversationRecord);
+    },
+    onError: (error) => {
+      console.error("Conversation error:", error);
+      // Failed attempts are reported once connect() has tried every transport
+      if (isConnectingRef.current) {
+        return;
+      }
+      toast({
+        title: "Connection Error",
+        description: "Failed to connect to the agent. Please try again.",
+        variant: "destructive",
+      });
+    },
+    onMessage: ({ message, source }) => {
+      reconnectAttemptRef.current = 0;
+      appendTranscriptEntry(createTranscriptEntry(source, message, activeAgentRef.current?.agentName));
+    },
+  };
+  const voiceControls = {
+    // Text mode in a voice session keeps the call open but stops listening
+    micMuted: isTextOnlySession
+      ? undefined
+      : inputMode === "text" || isMuted || (audioPreferences.pushToTalk && !isTalking),
+    volume,
+    inputDeviceId: audioPreferences.inputDeviceId,
+    outputDeviceId: audioPreferences.outputDeviceId,
+  };
+
+  // Every provider stays mounted; a session runs on whichever one its agent uses
+  const voiceProviders: Record<VoiceProviderId, VoiceProvider> = {
+    elevenlabs: useElevenLabsVoiceProvider(voiceEvents, voiceControls),
+    mock: useMockVoiceProvider(voiceEvents, voiceControls),
+  };
+  const providerFor = (agent: AgentSessionConfig | null) => voiceProviders[agent?.voiceProvider ?? "elevenlabs"];
+  const conversation = providerFor(activeAgent);
+  // For code that runs after an await, when the active agent may have changed since this render
+  const liveProvider = () => providerFor(activeAgentRef.current);
+
+  const findAgent = (agentName: string) =>
+    agentDirectoryRef.current.find(
+      (agent) => agent.agentName.toLowerCase() === agentName.trim().toLowerCase()
+    );
+
+  const buildSessionOptions = (
+    agent: AgentSessionConfig,
+    connectionType: ConnectionType,
+    textOnly: boolean,
+  ): VoiceSessionOptions => ({
+    agentRowId: agent.agentRowId,
+    connectionType,
+    textOnly,
+    clientTools: buildClientTools(agent.clientTools, {
+      captureNote,
+      openUrl: (url, title) => setUrlPanel({ url, title }),
+      showSummaryCard: (card) => setSummaryCards((current) => [...current, card]),
+      switchAgent: (targetName) => {
+        const target = findAgent(targetName);
+        if (!target) {
+          return null;
+        }
+        // Let the tool result reach the agent before hanging up
+        setTimeout(() => switchAgentRef.current?.(target), 0);
+        return target.agentName;
+      },
+    }, logClientToolCall),
+    overrides: agent.sessionOverrides,
+    dynamicVariables: toDynamicVariables(agent.sharedProfile),
+    inputDeviceId: audioPreferences.inputDeviceId,
+    outputDeviceId: audioPreferences.outputDeviceId,
+  });
+
+  // Tries each transport in turn, so a network that blocks WebRTC falls back to WebSocket
+  const connect = async (agent: AgentSessionConfig, mode: InputMode) => {
+    // Text-only sessions never open the microphone, so they work without permission
+    const textOnly = mode === "text";
+    let lastError: unknown = new Error("Could not connect to the agent");
+
+    isConnectingRef.current = true;
+    try {
+      for (const type of textOnly ? TEXT_CONNECTION_TYPES : VOICE_CONNECTION_TYPES) {
+        try {
+          await providerFor(agent).startSession(buildSessionOptions(agent, type, textOnly));
+          setConnectionType(type);
+          return;
+        } catch (error) {
+          console.warn(`${CONNECTION_TYPE_LABELS[type]} connection failed:`, error);
+          lastError = error;
+        }
+      }
+    } finally {
+      isConnectingRef.current = false;
+    }
+
+    throw lastError;
+  };
+  connectRef.current = connect;
+
+  const beginSession = async (
+    agent: AgentSessionConfig,
+    mode: InputMode,
+    squadAgents: AgentSessionConfig[] | null = null,
+    recordingConsentId?: string,
+  ) => {
+    activeAgentRef.current = agent;
+    setActiveAgent(agent);
+    squadRef.current = squadAgents;
+    setSquad(squadAgents);
+    setIsInitializing(true);
+    transcriptRef.current = [];
+    setTranscript([]);
+    storedEntriesRef.current = new Map();
+    setMessageFeedback({});
+    summaryRequestRef.current = null;
+    setSessionSummary(null);
+    notesRef.current = [];
+    setNotes([]);
+    contextUpdatesRef.current = [];
+    setContextUpdates([]);
+    setSummaryCards([]);
+    setUrlPanel(null);
+    setInputMode(mode);
+    setIsTextOnlySession(mode === "text");
+    setIsMuted(false);
+    setLastDisconnect(null);
+    sessionModeRef.current = mode;
+    reconnectAttemptRef.current = 0;
+    recordingConsentIdRef.current = recordingConsentId ?? null;
+    setIsRecording(recordingConsentId !== undefined);
+    try {
+      await connect(agent, mode);
+    } catch (error) {
+      console.error("Failed to start conversation:", error);
+      toast({
+        title: "Failed to Start",
+        description: error instanceof Error ? error.message : "Could not connect to the agent",
+        variant: "destructive",
+      });
+    } finally {
+      setIsInitializing(false);
+    }
+  };
+
+  const endSession = async (reason: ConversationEndReason = "user") => {
+    // Between reconnect attempts there is no live session, only the pending record
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+      setReconnectAttempt(0);
+      finishConversationRecord(reason);
+      return;
+    }
+    endReasonRef.current = reason;
+    await liveProvider().endSession();
+  };
+
+  // Runs while the page is going away, so nothing here may wait on a promise
+  const endSessionOnUnload = () => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    const conversationId = conversationIdRef.current;
+    if (conversationId && accessTokenRef.current) {
+      endConversationRecordOnUnload(conversationId, "page_closed", accessTokenRef.current);
+      conversationRecordRef.current = null;
+      conversationIdRef.current = null;
+    }
+    liveProvider().endSession();
+  };
+
+  // Asking as part of Start means a first-time user still only clicks once
+  const ensureMicrophoneAccess = async (start: PendingStart) => {
+    if (start.mode === "text" || microphonePermission === "granted") {
+      return true;
+    }
+
+    const result = microphonePermission === "denied"
+      ? "denied"
+      : await requestMicrophoneAccess(audioPreferences.inputDeviceId);
+    if (result === "granted") {
+      return true;
+    }
+
+    if (result === "denied") {
+      setBlockedStart(start);
+    } else {
+      toast({
+        title: "Microphone Unavailable",
+        description: "No microphone could be opened. Check one is connected, or chat by text instead",
+        variant: "destructive",
+      });
+    }
+    return false;
+  };
+
+  const switchSession = async (
+    agent: AgentSessionConfig,
+    mode: InputMode,
+    squadAgents: AgentSessionConfig[] | null = null,
+    recordingConsentId?: string,
+  ) => {
+    const start = { agent, mode, squad: squadAgents, record: recordingConsentId !== undefined, recordingConsentId };
+    if (!(await ensureMicrophoneAccess(start))) {
+      return;
+    }
+    isSwitchingRef.current = true;
+    try {
+      await endSession();
+    } finally {
+      isSwitchingRef.current = false;
+    }
+    await beginSession(agent, mode, squadAgents, recordingConsentId);
+  };
+
+  // Moves a squad session to the next agent, briefing them on the conversation so far
+  const handOff = async (target: AgentSessionConfig) => {
+    const from = activeAgentRef.current;
+    if (!from || from.agentRowId === target.agentRowId) {
+      return;
+    }
+
+    const summary = buildHandoffSummary(from.agentName, target.agentName, transcriptRef.current, notesRef.current);
+    isHandingOffRef.current = true;
+    setIsInitializing(true);
+    try {
+      await liveProvider().endSession();
+      activeAgentRef.current = target;
+      setActiveAgent(target);
+      appendTranscriptEntry(createTranscriptEntry("system", `${from.agentName} handed over to ${target.agentName}`));
+      await connectRef.current?.(target, sessionModeRef.current);
+      liveProvider().sendContextualUpdate(summary);
+      replayContextUpdates();
+    } catch (error) {
+      console.error("Failed to hand over:", error);
+      finishConversationRecord("error");
+      toast({
+        title: "Handoff Failed",
+        description: error instanceof Error ? error.message : `Could not connect to ${target.agentName}`,
+        variant: "destructive",
+      });
+    } finally {
+      isHandingOffRef.current = false;
+      setIsInitializing(false);
+    }
+  };
+
+  switchAgentRef.current = (target) => {
+    if (squadRef.current) {
+      handOff(target);
+    } else {
+      switchSession(target, sessionModeRef.current);
+    }
+  };
+
+  const isInCall = conversation.status !== "disconnected" || isInitializing || reconnectAttempt > 0;
+
+  const requestStart = async (start: PendingStart) => {
+    // Consent is settled first, so recording never starts before the user agrees
+    if (start.record && !start.recordingConsentId) {
+      setConsentStart(start);
+      return;
+    }
+    if (isInCall) {
+      if (start.squad || activeAgent?.agentRowId !== start.agent.agentRowId) {
+        setPendingStart(start);
+      }
+      return;
+    }
+    if (await ensureMicrophoneAccess(start)) {
+      beginSession(start.agent, start.mode, start.squad, start.recordingConsentId);
+    }
+  };
+
+  const startSession = (agent: AgentSessionConfig, mode: InputMode, record = false) => {
+    requestStart({ agent, mode, squad: null, record });
+  };
+
+  const acceptRecordingConsent = async () => {
+    if (!consentStart) {
+      return;
+    }
+    try {
+      const recordingConsentId = await logRecordingConsent(consentStart.agent.agentRowId);
+      setConsentStart(null);
+      requestStart({ ...consentStart, recordingConsentId });
+    } catch (error) {
+      console.error("Failed to log recording consent:", error);
+      toast({
+        title: "Consent Not Saved",
+        description: "Recording can't start until your consent is saved. Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startSquadSession = (agents: AgentSessionConfig[], mode: InputMode) => {
+    if (agents.length > 0) {
+      requestStart({ agent: agents[0], mode, squad: agents });
+    }
+  };
+
+  const retryMicrophoneAccess = async () => {
+    const result = await requestMicrophoneAccess(audioPreferences.inputDeviceId);
+    if (result !== "granted") {
+      toast({
+        title: "Microphone Still Blocked",
+        description: "Change the site setting as described, then try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const sendTextMessage = (message: string) => {
+    conversation.sendUserMessage(message);
+    appendTranscriptEntry(createTranscriptEntry("user", message));
+  };
+
+  // Background from the facilitator, which the agent reads without being interrupted
+  const sendContextUpdate = (text: string) => {
+    conversation.sendContextualUpdate(text);
+    contextUpdatesRef.current = [...contextUpdatesRef.current, text];
+    setContextUpdates(contextUpdatesRef.current);
+    appendTranscriptEntry(createTranscriptEntry("system", `Context shared: ${text}`));
+  };
+
+  // Every vote is stored, but ElevenLabs only accepts one on its latest response
+  const rateMessage = async (entry: TranscriptEntry, rating: MessageFeedbackRating) => {
+    const previousRating = messageFeedback[entry.id];
+    setMessageFeedback((current) => ({ ...current, [entry.id]: rating }));
+
+    const latestReply = transcriptRef.current.filter(({ source }) => source === "ai").at(-1);
+    if (latestReply?.id === entry.id && conversation.canSendFeedback) {
+      conversation.sendFeedback(rating === "like");
+    }
+
+    // In a squad the reply may be from an agent who has since handed over
+    const agent = squadRef.current?.find(({ agentName }) => agentName === entry.agentName) ?? activeAgentRef.current;
+    try {
+      const id = await storedEntriesRef.current.get(entry.id);
+      if (!id) {
+        throw new Error("This message was not saved, so it can't be rated");
+      }
+      await recordMessageFeedback(id, entry.id, agent?.agentRowId ?? null, rating);
+    } catch (error) {
+      console.error("Failed to record message feedback:", error);
+      setMessageFeedback((current) => ({ ...current, [entry.id]: previousRating }));
+      toast({
+        title: "Vote Not Saved",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const submitRating = async (rating: number, comment: string) => {
+    if (!ratingPrompt) {
+      return;
+    }
+    try {
+      await saveConversationRating(ratingPrompt.conversationId, ratingPrompt.agentRowId, rating, comment);
+      setRatingPrompt(null);
+      toast({
+        title: "Thanks for Your Feedback",
+        description: `Your rating for ${ratingPrompt.agentName} has been saved`,
+      });
+    } catch (error) {
+      console.error("Failed to save rating:", error);
+      toast({
+        title: "Rating Not Saved",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      accessTokenRef.current = session?.access_token ?? null;
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+      }
+    };
+  }, []);
+
+  // Hold the hotkey to open the microphone while push-to-talk is on
+  useEffect(() => {
+    if (!audioPreferences.pushToTalk || conversation.status !== "connected") {
+      return;
+    }
+
+    const isTypingTarget = (target: EventTarget | null) =>
+      target instanceof HTMLElement &&
+      (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code === PUSH_TO_TALK_KEY && !event.repeat && !isTypingTarget(event.target)) {
+        event.preventDefault();
+        setIsTalking(true);
+      }
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === PUSH_TO_TALK_KEY) {
+        setIsTalking(false);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      setIsTalking(false);
+    };
+  }, [audioPreferences.pushToTalk, conversation.status]);
+
+  const manager: ConversationManager = {
+    activeAgent,
+    squad,
+    microphonePermission,
+    status: conversation.status,
+    isSpeaking: conversation.isSpeaking,
+    isInitializing,
+    isInCall,
+    isRecording,
+    connectionType,
+    reconnectAttempt,
+    lastDisconnect,
+    inputMode,
+    setInputMode,
+    isTextOnlySession,
+    transcript,
+    messageFeedback,
+    rateMessage,
+    sessionSummary,
+    notes,
+    contextUpdates,
+    summaryCards,
+    dismissSummaryCard: (index) =>
+      setSummaryCards((current) => current.filter((_, cardIndex) => cardIndex !== index)),
+    urlPanel,
+    closeUrlPanel: () => setUrlPanel(null),
+    isMuted,
+    setIsMuted,
+    volume,
+    setVolume,
+    isTalking,
+    audioPreferences,
+    updateAudioPreferences,
+    sessionPreferences,
+    updateSessionPreferences,
+    captionPreferences,
+    updateCaptionPreferences,
+    getInputVolume: conversation.getInputVolume,
+    getOutputVolume: conversation.getOutputVolume,
+    getInputByteFrequencyData: conversation.getInputByteFrequencyData,
+    getOutputByteFrequencyData: conversation.getOutputByteFrequencyData,
+    startSession,
+    startSquadSession,
+    handOff,
+    endSession,
+    endSessionOnUnload,
+    sendTextMessage,
+    sendContextUpdate,
+    sendUserActivity: conversation.sendUserActivity,
+    setAgentDirectory: (agents) => {
+      agentDirectoryRef.current = agents;
+    },
+  };
+
+  return (
+    <ConversationContext.Provider value={manager}>
+      {children}
+      <SessionLifecycle />
+      <MicrophoneRecoveryDialog
+        open={blockedStart !== null}
+        onOpenChange={(open) => !open && setBlockedStart(null)}
+        permission={microphonePermission}
+        agentName={blockedStart?.agent.agentName}
+        onRetry={retryMicrophoneAccess}
+        onStart={() => {
+          setBlockedStart(null);
+          requestStart(blockedStart);
+        }}
+        onUseText={() => {
+          setBlockedStart(null);
+          // Text sessions have no audio to record
+          requestStart({ ...blockedStart, mode: "text", record: false, recordingConsentId: undefined });
+        }}
+      />
+      <RecordingConsentDialog
+        open={consentStart !== null}
+        onOpenChange={(open) => !open && setConsentStart(null)}
+        agentName={consentStart?.agent.agentName}
+        onAccept={acceptRecordingConsent}
+        onDecline={() => {
+          setConsentStart(null);
+          requestStart({ ...consentStart, record: false });
+        }}
+      />
+      <SessionRatingDialog
+        open={ratingPrompt !== null}
+        onOpenChange={(open) => !open && setRatingPrompt(null)}
+        agentName={ratingPrompt?.agentName}
+        onSubmit={submitRating}
+      />
+      <AlertDialog open={pendingStart !== null} onOpenChange={(open) => !open && setPendingStart(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>End current conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You are already in a conversation with {activeAgent?.agentName}. End it and start
+              {pendingStart?.squad
+                ? ` a squad session with ${pendingStart.squad.map(({ agentName }) => agentName).join(", ")}`
+                : ` talking to ${pendingStart?.agent.agentName}`} instead?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Stay in Call</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingStart) {
+                  switchSession(pendingStart.agent, pendingStart.mode, pendingStart.squad, pendingStart.recordingConsentId);
+                }
+                setPendingStart(null);
+              }}
+            >
+              {pendingStart?.squad ? "Start Squad Session" : `Switch to ${pendingStart?.agent.agentName}`}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </ConversationContext.Provider>
+  );
+};
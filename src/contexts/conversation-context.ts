@@ -0,0 +1,95 @@
+import { createContext } from "react";
+import type { SummaryCard, UrlPanel } from "@/lib/client-tools";
+import type { SessionOverrides } from "@/lib/agent-overrides";
+import type { SharedProfileValue } from "@/lib/user-context";
+import type { ConnectionType } from "@/lib/connection";
+import type { TranscriptEntry } from "@/lib/transcript";
+import type { ConversationEndReason } from "@/lib/conversations";
+import type { MessageFeedbackRating } from "@/lib/feedback";
+import type { SessionSummary } from "@/lib/summarizer";
+import type { VoiceProviderId, VoiceStatus } from "@/lib/voice-provider";
+import type { AudioPreferences } from "@/hooks/use-audio-preferences";
+import type { SessionPreferences } from "@/hooks/use-session-preferences";
+import type { CaptionPreferences } from "@/hooks/use-caption-preferences";
+import type { MicrophonePermission } from "@/hooks/use-microphone-permission";
+
+export type InputMode = "voice" | "text";
+
+// Everything needed to open a session with one configured agent
+export interface AgentSessionConfig {
+  agentRowId: string;
+  agentName: string;
+  voiceProvider: VoiceProviderId;
+  clientTools: string[];
+  sessionOverrides?: SessionOverrides;
+  sharedProfile: SharedProfileValue[];
+}
+
+export interface SessionSummaryState {
+  status: "generating" | "ready" | "failed";
+  summary: SessionSummary | null;
+}
+
+export interface ConversationManager {
+  // Agent of the current session, or of the most recent one once it has ended
+  activeAgent: AgentSessionConfig | null;
+  // Agents of the current squad session in handoff order, or null for a one-agent session
+  squad: AgentSessionConfig[] | null;
+  microphonePermission: MicrophonePermission;
+  status: VoiceStatus;
+  isSpeaking: boolean;
+  isInitializing: boolean;
+  // True from the moment a session is requested until it has fully ended
+  isInCall: boolean;
+  // Whether the user agreed to have the current session recorded
+  isRecording: boolean;
+  connectionType: ConnectionType | null;
+  reconnectAttempt: number;
+  lastDisconnect: string | null;
+  inputMode: InputMode;
+  setInputMode: (mode: InputMode) => void;
+  isTextOnlySession: boolean;
+  transcript: TranscriptEntry[];
+  // Thumbs given to agent turns in the current session, keyed by transcript entry id
+  messageFeedback: Record<string, MessageFeedbackRating>;
+  rateMessage: (entry: TranscriptEntry, rating: MessageFeedbackRating) => Promise<void>;
+  // Summary of the session that just ended, made once the call is over
+  sessionSummary: SessionSummaryState | null;
+  notes: string[];
+  // Context the facilitator has shared this session, replayed after reconnects and handoffs
+  contextUpdates: string[];
+  summaryCards: SummaryCard[];
+  dismissSummaryCard: (index: number) => void;
+  urlPanel: UrlPanel | null;
+  closeUrlPanel: () => void;
+  isMuted: boolean;
+  setIsMuted: (muted: boolean) => void;
+  volume: number;
+  setVolume: (volume: number) => void;
+  isTalking: boolean;
+  audioPreferences: AudioPreferences;
+  updateAudioPreferences: (changes: Partial<AudioPreferences>) => void;
+  sessionPreferences: SessionPreferences;
+  updateSessionPreferences: (changes: Partial<SessionPreferences>) => void;
+  captionPreferences: CaptionPreferences;
+  updateCaptionPreferences: (changes: Partial<CaptionPreferences>) => void;
+  getInputVolume: () => number;
+  getOutputVolume: () => number;
+  getInputByteFrequencyData: () => Uint8Array | undefined;
+  getOutputByteFrequencyData: () => Uint8Array | undefined;
+  // Starts a session, first asking to end any other agent's active call and,
+  // for voice, asking for the microphone. Recording asks for consent before anything else.
+  startSession: (agent: AgentSessionConfig, mode: InputMode, record?: boolean) => void;
+  // Starts with the first agent; the rest join one by one through handOff
+  startSquadSession: (agents: AgentSessionConfig[], mode: InputMode) => void;
+  handOff: (agent: AgentSessionConfig) => Promise<void>;
+  endSession: (reason?: ConversationEndReason) => Promise<void>;
+  endSessionOnUnload: () => void;
+  sendTextMessage: (message: string) => void;
+  sendContextUpdate: (text: string) => void;
+  sendUserActivity: () => void;
+  // Agents the switch_agent client tool can hand over to
+  setAgentDirectory: (agents: AgentSessionConfig[]) => void;
+}
+
+export const ConversationContext = createContext<ConversationManager | null>(null);
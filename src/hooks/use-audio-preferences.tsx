@@ -0,0 +1,14 @@
+import { useUserPreferences } from "./use-user-preferences";
+
+export interface AudioPreferences {
+  inputDeviceId?: string;
+  outputDeviceId?: string;
+  pushToTalk: boolean;
+}
+
+const DEFAULT_PREFERENCES: AudioPreferences = { pushToTalk: false };
+
+// Device IDs are only meaningful to the browser that issued them
+export function useAudioPreferences() {
+  return useUserPreferences("audio-preferences", DEFAULT_PREFERENCES);
+}
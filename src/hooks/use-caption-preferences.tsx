@@ -0,0 +1,23 @@
+import { useUserPreferences } from "./use-user-preferences";
+
+export type CaptionSize = "medium" | "large" | "extra-large";
+
+export type CaptionContrast = "standard" | "high";
+
+export interface CaptionPreferences {
+  enabled: boolean;
+  size: CaptionSize;
+  contrast: CaptionContrast;
+}
+
+export const CAPTION_SIZES: { value: CaptionSize; label: string }[] = [
+  { value: "medium", label: "Medium" },
+  { value: "large", label: "Large" },
+  { value: "extra-large", label: "Extra large" },
+];
+
+const DEFAULT_PREFERENCES: CaptionPreferences = { enabled: false, size: "large", contrast: "standard" };
+
+export function useCaptionPreferences() {
+  return useUserPreferences("caption-preferences", DEFAULT_PREFERENCES);
+}
@@ -0,0 +1,10 @@
+import * as React from "react";
+import { ConversationContext } from "@/contexts/conversation-context";
+
+export function useConversationManager() {
+  const manager = React.useContext(ConversationContext);
+  if (!manager) {
+    throw new Error("useConversationManager must be used within a ConversationProvider");
+  }
+  return manager;
+}
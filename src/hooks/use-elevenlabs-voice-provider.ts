@@ -0,0 +1,132 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Conversation,
+  VoiceConversation,
+  type Callbacks,
+  type DisconnectionDetails,
+  type Mode,
+  type Status,
+} from "@elevenlabs/client";
+import { fetchSessionCredentials } from "@/lib/elevenlabs-session";
+import type {
+  VoiceDisconnectDetails,
+  VoiceProvider,
+  VoiceProviderControls,
+  VoiceProviderEvents,
+} from "@/lib/voice-provider";
+
+// The SDK keeps the session's own audio format for anything left out, though its types ask for one
+type InputDeviceChange = Parameters<VoiceConversation["changeInputDevice"]>[0];
+type OutputDeviceChange = Parameters<VoiceConversation["changeOutputDevice"]>[0];
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const toDisconnectDetails = (details: DisconnectionDetails): VoiceDisconnectDetails => {
+  switch (details.reason) {
+    case "user":
+      return { reason: "user" };
+    case "agent":
+      return { reason: "agent", message: details.context?.reason || undefined };
+    case "error":
+      return { reason: "error", message: details.message };
+  }
+};
+
+// Adapts the ElevenLabs client SDK to the VoiceProvider interface. The SDK's
+// React hook hides the session object, which switching devices mid-call needs.
+export const useElevenLabsVoiceProvider = (
+  events: VoiceProviderEvents,
+  { micMuted, volume, inputDeviceId, outputDeviceId }: VoiceProviderControls,
+): VoiceProvider => {
+  const conversationRef = useRef<Conversation | null>(null);
+  const [status, setStatus] = useState<Status>("disconnected");
+  const [mode, setMode] = useState<Mode>("listening");
+  const [canSendFeedback, setCanSendFeedback] = useState(false);
+  // Read when a session opens, which is after the render that started it
+  const controlsRef = useRef({ micMuted, volume });
+  controlsRef.current = { micMuted, volume };
+  const eventsRef = useRef(events);
+  eventsRef.current = events;
+
+  useEffect(() => {
+    if (micMuted !== undefined) {
+      conversationRef.current?.setMicMuted(micMuted);
+    }
+  }, [micMuted]);
+
+  useEffect(() => {
+    conversationRef.current?.setVolume({ volume });
+  }, [volume]);
+
+  // Devices picked during a call are switched over without reconnecting
+  useEffect(() => {
+    const conversation = conversationRef.current;
+    if (conversation instanceof VoiceConversation && conversation.isOpen()) {
+      conversation
+        .changeInputDevice({ inputDeviceId } as InputDeviceChange)
+        .catch((error) => eventsRef.current.onError(`Could not switch microphone: ${describeError(error)}`));
+    }
+  }, [inputDeviceId]);
+
+  useEffect(() => {
+    const conversation = conversationRef.current;
+    if (conversation instanceof VoiceConversation && conversation.isOpen()) {
+      conversation
+        .changeOutputDevice({ outputDeviceId } as OutputDeviceChange)
+        .catch((error) => eventsRef.current.onError(`Could not switch speaker: ${describeError(error)}`));
+    }
+  }, [outputDeviceId]);
+
+  useEffect(() => () => {
+    conversationRef.current?.endSession();
+  }, []);
+
+  return {
+    status,
+    isSpeaking: mode === "speaking",
+    canSendFeedback,
+    startSession: async ({ agentRowId, connectionType, textOnly, ...sessionOptions }) => {
+      if (conversationRef.current?.isOpen()) {
+        return;
+      }
+
+      const credentials = await fetchSessionCredentials(agentRowId, connectionType);
+      const callbacks: Partial<Callbacks> = {
+        onConnect: events.onConnect,
+        onDisconnect: (details) => events.onDisconnect(toDisconnectDetails(details)),
+        onError: (message) => events.onError(message),
+        onMessage: ({ message, source }) => events.onMessage({ message, source }),
+        onModeChange: ({ mode }) => setMode(mode),
+        onStatusChange: ({ status }) => setStatus(status),
+        onCanSendFeedbackChange: ({ canSendFeedback }) => setCanSendFeedback(canSendFeedback),
+      };
+      const shared = { ...sessionOptions, ...callbacks, userId: credentials.userId };
+      const conversation = await Conversation.startSession(
+        credentials.connectionType === "websocket"
+          ? { ...shared, signedUrl: credentials.signedUrl, connectionType: "websocket", textOnly }
+          : { ...shared, conversationToken: credentials.conversationToken, connectionType: "webrtc" },
+      );
+      conversationRef.current = conversation;
+
+      // Controls changed while connecting would otherwise be lost
+      const { micMuted, volume } = controlsRef.current;
+      if (micMuted !== undefined) {
+        conversation.setMicMuted(micMuted);
+      }
+      conversation.setVolume({ volume });
+    },
+    endSession: async () => {
+      const conversation = conversationRef.current;
+      conversationRef.current = null;
+      await conversation?.endSession();
+    },
+    sendUserMessage: (text) => conversationRef.current?.sendUserMessage(text),
+    sendUserActivity: () => conversationRef.current?.sendUserActivity(),
+    sendContextualUpdate: (text) => conversationRef.current?.sendContextualUpdate(text),
+    sendFeedback: (like) => conversationRef.current?.sendFeedback(like),
+    getInputVolume: () => conversationRef.current?.getInputVolume() ?? 0,
+    getOutputVolume: () => conversationRef.current?.getOutputVolume() ?? 0,
+    getInputByteFrequencyData: () => conversationRef.current?.getInputByteFrequencyData(),
+    getOutputByteFrequencyData: () => conversationRef.current?.getOutputByteFrequencyData(),
+  };
+};
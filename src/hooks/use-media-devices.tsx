@@ -0,0 +1,39 @@
+import * as React from "react";
+
+export interface MediaDeviceOption {
+  deviceId: string;
+  label: string;
+}
+
+const toOptions = (devices: MediaDeviceInfo[], kind: MediaDeviceKind, fallbackLabel: string) =>
+  devices
+    .filter((device) => device.kind === kind && device.deviceId)
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      // Labels stay empty until the user has granted microphone access
+      label: device.label || `${fallbackLabel} ${index + 1}`,
+    }));
+
+export function useMediaDevices(enabled = true) {
+  const [inputs, setInputs] = React.useState<MediaDeviceOption[]>([]);
+  const [outputs, setOutputs] = React.useState<MediaDeviceOption[]>([]);
+  const canSelectOutput = typeof HTMLMediaElement !== "undefined" && "setSinkId" in HTMLMediaElement.prototype;
+
+  React.useEffect(() => {
+    if (!enabled || !navigator.mediaDevices?.enumerateDevices) {
+      return;
+    }
+
+    const refresh = async () => {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      setInputs(toOptions(devices, "audioinput", "Microphone"));
+      setOutputs(toOptions(devices, "audiooutput", "Speaker"));
+    };
+
+    refresh();
+    navigator.mediaDevices.addEventListener("devicechange", refresh);
+    return () => navigator.mediaDevices.removeEventListener("devicechange", refresh);
+  }, [enabled]);
+
+  return { inputs, outputs, canSelectOutput };
+}
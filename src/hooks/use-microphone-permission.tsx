@@ -0,0 +1,71 @@
+import * as React from "react";
+
+export type MicrophonePermission = "prompt" | "granted" | "denied" | "unsupported";
+
+// "unavailable" covers everything that isn't a permission decision, like no microphone at all
+export type MicrophoneAccessResult = "granted" | "denied" | "unavailable";
+
+// Mirrors the browser's own microphone permission, including changes the user
+// makes in site settings while the page is open. Browsers that can't report it
+// through the Permissions API stay "unsupported" until access is requested.
+export function useMicrophonePermission() {
+  const [permission, setPermission] = React.useState<MicrophonePermission>("prompt");
+
+  React.useEffect(() => {
+    if (!navigator.permissions?.query) {
+      setPermission("unsupported");
+      return;
+    }
+
+    let status: PermissionStatus | null = null;
+    let cancelled = false;
+    const handleChange = () => setPermission(status.state);
+
+    // Firefox only recognises "microphone" from version 131 and rejects it before that
+    navigator.permissions
+      .query({ name: "microphone" as PermissionName })
+      .then((result) => {
+        if (cancelled) {
+          return;
+        }
+        status = result;
+        setPermission(result.state);
+        result.addEventListener("change", handleChange);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setPermission("unsupported");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      status?.removeEventListener("change", handleChange);
+    };
+  }, []);
+
+  const requestAccess = React.useCallback(async (deviceId?: string): Promise<MicrophoneAccessResult> => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      return "unavailable";
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: deviceId ? { deviceId } : true,
+      });
+      // Only the permission is needed here; the session opens its own stream
+      stream.getTracks().forEach((track) => track.stop());
+      setPermission("granted");
+      return "granted";
+    } catch (error) {
+      console.error("Microphone access failed:", error);
+      if (error instanceof DOMException && error.name === "NotAllowedError") {
+        setPermission("denied");
+        return "denied";
+      }
+      return "unavailable";
+    }
+  }, []);
+
+  return { permission, requestAccess };
+}
@@ -0,0 +1,221 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  MOCK_CLOSING_MESSAGE,
+  MOCK_CONTEXT_ACKNOWLEDGEMENT,
+  MOCK_FIRST_MESSAGE,
+  MOCK_SCRIPT,
+} from "@/lib/mock-voice-script";
+import type {
+  VoiceProvider,
+  VoiceProviderControls,
+  VoiceProviderEvents,
+  VoiceSessionOptions,
+  VoiceStatus,
+} from "@/lib/voice-provider";
+
+const CONNECT_DELAY_MS = 400;
+const REPLY_DELAY_MS = 800;
+const USER_TURN_DELAY_MS = 2000;
+// Used to time replies when the browser has no speech synthesis to play them
+const SPEECH_MS_PER_CHARACTER = 55;
+const FREQUENCY_BINS = 128;
+
+interface MockSession {
+  events: VoiceProviderEvents;
+  options: VoiceSessionOptions;
+  // Index of the next scripted exchange
+  step: number;
+  hasNewContext: boolean;
+  timers: Set<ReturnType<typeof setTimeout>>;
+}
+
+const canSpeak = () => typeof window !== "undefined" && "speechSynthesis" in window;
+
+// A gentle wobble so the visualizer has something to draw
+const fakeLevel = (base: number) => base * (0.6 + 0.4 * Math.abs(Math.sin(Date.now() / 140)));
+
+const fakeFrequencyData = (level: number) =>
+  Uint8Array.from({ length: FREQUENCY_BINS }, (_, bin) =>
+    Math.round(255 * level * Math.max(0, 1 - bin / FREQUENCY_BINS) * (0.7 + 0.3 * Math.sin(Date.now() / 90 + bin))),
+  );
+
+// Plays a scripted conversation locally, for demos and for working on the UI
+// without an ElevenLabs account or network access.
+export const useMockVoiceProvider = (
+  events: VoiceProviderEvents,
+  { micMuted, volume }: VoiceProviderControls,
+): VoiceProvider => {
+  const [status, setStatus] = useState<VoiceStatus>("disconnected");
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [canSendFeedback, setCanSendFeedback] = useState(false);
+  const sessionRef = useRef<MockSession | null>(null);
+  // Timers read these when they fire, after the render that scheduled them
+  const isSpeakingRef = useRef(false);
+  const micMutedRef = useRef(micMuted);
+  micMutedRef.current = micMuted;
+  const volumeRef = useRef(volume);
+  volumeRef.current = volume;
+
+  const schedule = (session: MockSession, callback: () => void, delayMs: number) => {
+    const timer = setTimeout(() => {
+      session.timers.delete(timer);
+      if (sessionRef.current === session) {
+        callback();
+      }
+    }, delayMs);
+    session.timers.add(timer);
+  };
+
+  const setSpeaking = (speaking: boolean) => {
+    isSpeakingRef.current = speaking;
+    setIsSpeaking(speaking);
+  };
+
+  // Cancelling speech fires the utterance's end handler, so the session is let go first
+  const stopSession = (session: MockSession) => {
+    sessionRef.current = null;
+    setSpeaking(false);
+    session.timers.forEach((timer) => clearTimeout(timer));
+    session.timers.clear();
+    if (canSpeak()) {
+      window.speechSynthesis.cancel();
+    }
+    setCanSendFeedback(false);
+    setStatus("disconnected");
+  };
+
+  const isListening = () => {
+    const session = sessionRef.current;
+    return session !== null && !session.options.textOnly && !micMutedRef.current && !isSpeakingRef.current;
+  };
+
+  const speak = (session: MockSession, text: string, onDone: () => void) => {
+    session.events.onMessage({ source: "ai", message: text });
+    setCanSendFeedback(true);
+    setSpeaking(true);
+
+    const finish = () => {
+      if (sessionRef.current === session && isSpeakingRef.current) {
+        setSpeaking(false);
+        onDone();
+      }
+    };
+
+    if (!session.options.textOnly && canSpeak()) {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.volume = volumeRef.current;
+      utterance.onend = finish;
+      utterance.onerror = finish;
+      window.speechSynthesis.speak(utterance);
+    } else {
+      schedule(session, finish, text.length * SPEECH_MS_PER_CHARACTER);
+    }
+  };
+
+  const reply = (session: MockSession) => {
+    const exchange = MOCK_SCRIPT[session.step];
+    if (!exchange) {
+      speak(session, MOCK_CLOSING_MESSAGE, () => {
+        const { events } = session;
+        stopSession(session);
+        events.onDisconnect({ reason: "agent", message: "The demo script has finished" });
+      });
+      return;
+    }
+
+    session.step += 1;
+    const tool = exchange.tool && session.options.clientTools[exchange.tool.name];
+    if (tool) {
+      Promise.resolve(tool(exchange.tool.parameters)).catch((error) =>
+        session.events.onError(error instanceof Error ? error.message : String(error)),
+      );
+    }
+
+    const text = session.hasNewContext ? `${MOCK_CONTEXT_ACKNOWLEDGEMENT} ${exchange.reply}` : exchange.reply;
+    session.hasNewContext = false;
+    speak(session, text, () => scheduleUserTurn(session));
+  };
+
+  // In voice mode the user's side of the script is "heard" once the agent stops talking
+  const scheduleUserTurn = (session: MockSession) => {
+    if (session.options.textOnly) {
+      return;
+    }
+    schedule(session, () => {
+      const exchange = MOCK_SCRIPT[session.step];
+      if (micMutedRef.current || !exchange) {
+        if (exchange) {
+          scheduleUserTurn(session);
+        }
+        return;
+      }
+      session.events.onMessage({ source: "user", message: exchange.user });
+      schedule(session, () => reply(session), REPLY_DELAY_MS);
+    }, USER_TURN_DELAY_MS);
+  };
+
+  useEffect(() => {
+    return () => {
+      const session = sessionRef.current;
+      sessionRef.current = null;
+      session?.timers.forEach((timer) => clearTimeout(timer));
+      if (session && canSpeak()) {
+        window.speechSynthesis.cancel();
+      }
+    };
+  }, []);
+
+  return {
+    status,
+    isSpeaking,
+    canSendFeedback,
+    startSession: async (options) => {
+      if (sessionRef.current) {
+        stopSession(sessionRef.current);
+      }
+      setStatus("connecting");
+      await new Promise((resolve) => setTimeout(resolve, CONNECT_DELAY_MS));
+
+      const session: MockSession = { events, options, step: 0, hasNewContext: false, timers: new Set() };
+      sessionRef.current = session;
+      setStatus("connected");
+      events.onConnect({ conversationId: `mock_${crypto.randomUUID()}` });
+      speak(session, options.overrides?.agent?.firstMessage || MOCK_FIRST_MESSAGE, () => scheduleUserTurn(session));
+    },
+    endSession: async () => {
+      const session = sessionRef.current;
+      if (!session) {
+        return;
+      }
+      setStatus("disconnecting");
+      stopSession(session);
+      session.events.onDisconnect({ reason: "user" });
+    },
+    sendUserMessage: () => {
+      const session = sessionRef.current;
+      if (!session) {
+        return;
+      }
+      // A typed message replaces whatever the script was about to "hear"
+      const wasSpeaking = isSpeakingRef.current;
+      setSpeaking(false);
+      session.timers.forEach((timer) => clearTimeout(timer));
+      session.timers.clear();
+      if (wasSpeaking && canSpeak()) {
+        window.speechSynthesis.cancel();
+      }
+      schedule(session, () => reply(session), REPLY_DELAY_MS);
+    },
+    sendUserActivity: () => {},
+    sendContextualUpdate: () => {
+      if (sessionRef.current) {
+        sessionRef.current.hasNewContext = true;
+      }
+    },
+    sendFeedback: () => setCanSendFeedback(false),
+    getInputVolume: () => (isListening() ? fakeLevel(0.15) : 0),
+    getOutputVolume: () => (isSpeakingRef.current ? fakeLevel(volumeRef.current * 0.6) : 0),
+    getInputByteFrequencyData: () => fakeFrequencyData(isListening() ? fakeLevel(0.15) : 0),
+    getOutputByteFrequencyData: () => fakeFrequencyData(isSpeakingRef.current ? fakeLevel(volumeRef.current * 0.6) : 0),
+  };
+};
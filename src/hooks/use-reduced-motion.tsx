@@ -0,0 +1,19 @@
+import * as React from "react";
+
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+export function usePrefersReducedMotion() {
+  const [prefersReducedMotion, setPrefersReducedMotion] = React.useState(false);
+
+  React.useEffect(() => {
+    const mql = window.matchMedia(REDUCED_MOTION_QUERY);
+    const onChange = () => {
+      setPrefersReducedMotion(mql.matches);
+    };
+    mql.addEventListener("change", onChange);
+    setPrefersReducedMotion(mql.matches);
+    return () => mql.removeEventListener("change", onChange);
+  }, []);
+
+  return prefersReducedMotion;
+}
@@ -0,0 +1,16 @@
+import { useUserPreferences } from "./use-user-preferences";
+
+export interface SessionPreferences {
+  // Ends the call on every route change instead of keeping it running in the header
+  endOnNavigate: boolean;
+  // 0 turns the idle timeout off
+  idleTimeoutMinutes: number;
+}
+
+export const IDLE_TIMEOUT_OPTIONS = [0, 1, 2, 5, 10, 15];
+
+const DEFAULT_PREFERENCES: SessionPreferences = { endOnNavigate: false, idleTimeoutMinutes: 0 };
+
+export function useSessionPreferences() {
+  return useUserPreferences("session-preferences", DEFAULT_PREFERENCES);
+}
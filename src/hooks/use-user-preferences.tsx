@@ -0,0 +1,47 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+// Preferences that only make sense on this browser are kept in localStorage,
+// keyed by user so shared machines don't mix them up.
+const storageKey = (name: string, userId: string) => `${name}:${userId}`;
+
+const readPreferences = <T extends object>(name: string, userId: string, defaults: T): T => {
+  try {
+    const stored = localStorage.getItem(storageKey(name, userId));
+    return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+  } catch {
+    return defaults;
+  }
+};
+
+// Callers pass module-level defaults, so they never change between renders
+export function useUserPreferences<T extends object>(name: string, defaults: T) {
+  const [userId, setUserId] = React.useState<string | null>(null);
+  const [preferences, setPreferences] = React.useState<T>(defaults);
+
+  // Follows sign-in and sign-out, since app-level callers outlive the login page
+  React.useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      const id = session?.user.id ?? null;
+      setUserId(id);
+      setPreferences(id ? readPreferences(name, id, defaults) : defaults);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [name, defaults]);
+
+  const updatePreferences = React.useCallback(
+    (changes: Partial<T>) => {
+      setPreferences((current) => {
+        const next = { ...current, ...changes };
+        if (userId) {
+          localStorage.setItem(storageKey(name, userId), JSON.stringify(next));
+        }
+        return next;
+      });
+    },
+    [name, userId],
+  );
+
+  return [preferences, updatePreferences] as const;
+}
@@ -0,0 +1,68 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { UserProfile } from "@/lib/user-context";
+
+export function useUserProfile() {
+  const [profile, setProfile] = React.useState<UserProfile | null>(null);
+
+  const loadProfile = React.useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      setProfile(null);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('display_name, company, job_role, industry')
+      .eq('user_id', session.user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Failed to load profile:", error);
+    }
+
+    setProfile({
+      displayName: data?.display_name || "",
+      company: data?.company || "",
+      role: data?.job_role || "",
+      industry: data?.industry || "",
+      email: session.user.email || "",
+    });
+  }, []);
+
+  React.useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const saveProfile = React.useCallback(
+    async (changes: Omit<UserProfile, "email">) => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        return { error: new Error("You must be signed in to update your profile") };
+      }
+
+      const { error } = await supabase
+        .from('profiles')
+        .upsert(
+          {
+            user_id: session.user.id,
+            display_name: changes.displayName || null,
+            company: changes.company || null,
+            job_role: changes.role || null,
+            industry: changes.industry || null,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'user_id' }
+        );
+
+      if (!error) {
+        await loadProfile();
+      }
+      return { error };
+    },
+    [loadProfile],
+  );
+
+  return { profile, saveProfile, reloadProfile: loadProfile };
+}
@@ -16,31 +16,380 @@ export type Database = {
     Tables: {
       agents: {
         Row: {
-          agent_id: string
           bio: string | null
+          client_tools: string[]
           created_at: string
+          first_message: string | null
+          health_checked_at: string | null
+          health_detail: string | null
+          health_status: Database["public"]["Enums"]["agent_health_status"] | null
           id: string
+          language: string | null
           llm: string | null
           name: string
+          shared_profile_fields: string[]
+          voice_id: string | null
+          voice_provider: Database["public"]["Enums"]["voice_provider"]
         }
         Insert: {
           agent_id: string
           bio?: string | null
+          client_tools?: string[]
           created_at?: string
+          first_message?: string | null
+          health_checked_at?: string | null
+          health_detail?: string | null
+          health_status?: Database["public"]["Enums"]["agent_health_status"] | null
           id?: string
+          language?: string | null
           llm?: string | null
           name: string
+          prompt_override?: string | null
+          shared_profile_fields?: string[]
+          voice_id?: string | null
+          voice_provider?: Database["public"]["Enums"]["voice_provider"]
         }
         Update: {
           agent_id?: string
           bio?: string | null
+          client_tools?: string[]
           created_at?: string
+          first_message?: string | null
+          health_checked_at?: string | null
+          health_detail?: string | null
+          health_status?: Database["public"]["Enums"]["agent_health_status"] | null
           id?: string
+          language?: string | null
           llm?: string | null
           name?: string
+          prompt_override?: string | null
+          shared_profile_fields?: string[]
+          voice_id?: string | null
+          voice_provider?: Database["public"]["Enums"]["voice_provider"]
         }
         Relationships: []
       }
+      conversation_messages: {
+        Row: {
+          agent_id: string | null
+          conversation_id: string
+          created_at: string
+          id: string
+          message: string
+          source: Database["public"]["Enums"]["conversation_message_source"]
+        }
+        Insert: {
+          agent_id?: string | null
+          conversation_id: string
+          created_at?: string
+          id?: string
+          message: string
+          source: Database["public"]["Enums"]["conversation_message_source"]
+        }
+        Update: {
+          agent_id?: string | null
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          message?: string
+          source?: Database["public"]["Enums"]["conversation_message_source"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_messages_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_ratings: {
+        Row: {
+          agent_id: string | null
+          comment: string | null
+          conversation_id: string
+          created_at: string
+          id: string
+          rating: number
+          user_id: string
+        }
+        Insert: {
+          agent_id?: string | null
+          comment?: string | null
+          conversation_id: string
+          created_at?: string
+          id?: string
+          rating: number
+          user_id: string
+        }
+        Update: {
+          agent_id?: string | null
+          comment?: string | null
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          rating?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_ratings_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_ratings_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: true
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_recordings: {
+        Row: {
+          agent_id: string | null
+          consent_id: string
+          conversation_id: string
+          created_at: string
+          detail: string | null
+          elevenlabs_conversation_id: string
+          id: string
+          status: Database["public"]["Enums"]["recording_status"]
+          storage_path: string | null
+          updated_at: string
+        }
+        Insert: {
+          agent_id?: string | null
+          consent_id: string
+          conversation_id: string
+          created_at?: string
+          detail?: string | null
+          elevenlabs_conversation_id: string
+          id?: string
+          status?: Database["public"]["Enums"]["recording_status"]
+          storage_path?: string | null
+          updated_at?: string
+        }
+        Update: {
+          agent_id?: string | null
+          consent_id?: string
+          conversation_id?: string
+          created_at?: string
+          detail?: string | null
+          elevenlabs_conversation_id?: string
+          id?: string
+          status?: Database["public"]["Enums"]["recording_status"]
+          storage_path?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_recordings_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_recordings_consent_id_fkey"
+            columns: ["consent_id"]
+            isOneToOne: false
+            referencedRelation: "recording_consents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_recordings_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          agent_id: string | null
+          created_at: string
+          elevenlabs_conversation_id: string | null
+          end_reason: Database["public"]["Enums"]["conversation_end_reason"] | null
+          ended_at: string | null
+          id: string
+          squad: boolean
+          started_at: string
+          summary: Json | null
+          summary_updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          agent_id?: string | null
+          created_at?: string
+          elevenlabs_conversation_id?: string | null
+          end_reason?: Database["public"]["Enums"]["conversation_end_reason"] | null
+          ended_at?: string | null
+          id?: string
+          squad?: boolean
+          started_at?: string
+          summary?: Json | null
+          summary_updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          agent_id?: string | null
+          created_at?: string
+          elevenlabs_conversation_id?: string | null
+          end_reason?: Database["public"]["Enums"]["conversation_end_reason"] | null
+          ended_at?: string | null
+          id?: string
+          squad?: boolean
+          started_at?: string
+          summary?: Json | null
+          summary_updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_feedback: {
+        Row: {
+          agent_id: string | null
+          conversation_id: string
+          created_at: string
+          id: string
+          message_id: string
+          rating: Database["public"]["Enums"]["message_feedback_rating"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          agent_id?: string | null
+          conversation_id: string
+          created_at?: string
+          id?: string
+          message_id: string
+          rating: Database["public"]["Enums"]["message_feedback_rating"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          agent_id?: string | null
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          message_id?: string
+          rating?: Database["public"]["Enums"]["message_feedback_rating"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_feedback_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_feedback_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_feedback_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
+            referencedRelation: "conversation_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          company: string | null
+          created_at: string
+          display_name: string | null
+          id: string
+          industry: string | null
+          job_role: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          company?: string | null
+          created_at?: string
+          display_name?: string | null
+          id?: string
+          industry?: string | null
+          job_role?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          company?: string | null
+          created_at?: string
+          display_name?: string | null
+          id?: string
+          industry?: string | null
+          job_role?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      recording_consents: {
+        Row: {
+          agent_id: string | null
+          consent_text: string
+          consented_at: string
+          id: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          agent_id?: string | null
+          consent_text: string
+          consented_at?: string
+          id?: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          agent_id?: string | null
+          consent_text?: string
+          consented_at?: string
+          id?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recording_consents_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -64,9 +413,26 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      agent_feedback_summary: {
+        Row: {
+          agent_id: string | null
+          average_rating: number | null
+          dislike_count: number | null
+          like_count: number | null
+          rating_count: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      get_agent_private_settings: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          agent_id: string
+          id: string
+          prompt_override: string | null
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -76,7 +442,19 @@ export type Database = {
       }
     }
     Enums: {
+      agent_health_status: "healthy" | "not_found" | "error"
       app_role: "admin" | "user"
+      conversation_end_reason:
+        | "user"
+        | "agent"
+        | "error"
+        | "navigation"
+        | "page_closed"
+        | "idle_timeout"
+      conversation_message_source: "user" | "ai" | "tool" | "system"
+      message_feedback_rating: "like" | "dislike"
+      recording_status: "pending" | "stored" | "unavailable"
+      voice_provider: "elevenlabs" | "mock"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -204,7 +582,20 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      agent_health_status: ["healthy", "not_found", "error"],
       app_role: ["admin", "user"],
+      conversation_end_reason: [
+        "user",
+        "agent",
+        "error",
+        "navigation",
+        "page_closed",
+        "idle_timeout",
+      ],
+      conversation_message_source: ["user", "ai", "tool", "system"],
+      message_feedback_rating: ["like", "dislike"],
+      recording_status: ["pending", "stored", "unavailable"],
+      voice_provider: ["elevenlabs", "mock"],
     },
   },
 } as const
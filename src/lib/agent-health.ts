@@ -0,0 +1,35 @@
+import type { Database } from "@/integrations/supabase/types";
+import { invokeEdgeFunction } from "@/lib/edge-functions";
+
+export type AgentHealthStatus = Database["public"]["Enums"]["agent_health_status"];
+
+export interface AgentHealth {
+  status: AgentHealthStatus | null;
+  detail: string | null;
+  checkedAt: Date | null;
+}
+
+export const AGENT_HEALTH_LABELS: Record<AgentHealthStatus, string> = {
+  healthy: "Reachable",
+  not_found: "Agent not found",
+  error: "Unreachable",
+};
+
+export const isAgentBroken = (health: AgentHealth) =>
+  health.status === "not_found" || health.status === "error";
+
+interface HealthCheckResponse {
+  results: { agentRowId: string; status: AgentHealthStatus; detail: string | null; checkedAt: string }[];
+}
+
+// Asks the agent-health-check edge function to check one agent now; the
+// function also stores the result on the agent row.
+export const checkAgentHealth = async (agentRowId: string): Promise<AgentHealth> => {
+  const { results } = await invokeEdgeFunction<HealthCheckResponse>('agent-health-check', { agentRowId });
+  const [result] = results;
+  return {
+    status: result.status,
+    detail: result.detail,
+    checkedAt: new Date(result.checkedAt),
+  };
+};
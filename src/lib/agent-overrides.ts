@@ -0,0 +1,76 @@
+import type { Language, SessionConfig } from "@11labs/react";
+
+// Languages ElevenLabs accepts as a conversation language override
+export const AGENT_LANGUAGES: { code: Language; name: string }[] = [
+  { code: "ar", name: "Arabic" },
+  { code: "bg", name: "Bulgarian" },
+  { code: "zh", name: "Chinese" },
+  { code: "hr", name: "Croatian" },
+  { code: "cs", name: "Czech" },
+  { code: "da", name: "Danish" },
+  { code: "nl", name: "Dutch" },
+  { code: "en", name: "English" },
+  { code: "tl", name: "Filipino" },
+  { code: "fi", name: "Finnish" },
+  { code: "fr", name: "French" },
+  { code: "de", name: "German" },
+  { code: "el", name: "Greek" },
+  { code: "hi", name: "Hindi" },
+  { code: "hu", name: "Hungarian" },
+  { code: "id", name: "Indonesian" },
+  { code: "it", name: "Italian" },
+  { code: "ja", name: "Japanese" },
+  { code: "ko", name: "Korean" },
+  { code: "ms", name: "Malay" },
+  { code: "no", name: "Norwegian" },
+  { code: "pl", name: "Polish" },
+  { code: "pt", name: "Portuguese" },
+  { code: "pt-br", name: "Portuguese (Brazil)" },
+  { code: "ro", name: "Romanian" },
+  { code: "ru", name: "Russian" },
+  { code: "sk", name: "Slovak" },
+  { code: "es", name: "Spanish" },
+  { code: "sv", name: "Swedish" },
+  { code: "ta", name: "Tamil" },
+  { code: "tr", name: "Turkish" },
+  { code: "uk", name: "Ukrainian" },
+  { code: "vi", name: "Vietnamese" },
+];
+
+export const AGENT_LANGUAGE_CODES = AGENT_LANGUAGES.map(({ code }) => code) as [Language, ...Language[]];
+
+// The admin's prompt notes are deliberately left out: a prompt override is sent
+// from the browser, so it would show every caller what only admins may read
+export interface AgentOverrides {
+  firstMessage?: string;
+  language?: string;
+  voiceId?: string;
+}
+
+export type SessionOverrides = SessionConfig["overrides"];
+
+// Only fields an admin has filled in are sent, so the agent's own
+// ElevenLabs configuration stays in charge of everything else.
+export const buildSessionOverrides = ({
+  firstMessage,
+  language,
+  voiceId,
+}: AgentOverrides): SessionOverrides | undefined => {
+  const agent: NonNullable<SessionOverrides["agent"]> = {};
+  if (firstMessage) {
+    agent.firstMessage = firstMessage;
+  }
+  if (language && (AGENT_LANGUAGE_CODES as string[]).includes(language)) {
+    agent.language = language as Language;
+  }
+
+  const overrides: SessionOverrides = {};
+  if (Object.keys(agent).length > 0) {
+    overrides.agent = agent;
+  }
+  if (voiceId) {
+    overrides.tts = { voiceId };
+  }
+
+  return Object.keys(overrides).length > 0 ? overrides : undefined;
+};
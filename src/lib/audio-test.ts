@@ -0,0 +1,76 @@
+// Small Web Audio helpers for the diagnostics page. They use the devices the
+// user picked for conversations, so a pass here means a call will sound right.
+
+const TEST_TONE_HZ = 440;
+const TEST_TONE_GAIN = 0.2;
+
+export const openMicrophone = (inputDeviceId?: string) =>
+  navigator.mediaDevices.getUserMedia({
+    audio: inputDeviceId ? { deviceId: { exact: inputDeviceId } } : true,
+  });
+
+export const stopStream = (stream: MediaStream) => stream.getTracks().forEach((track) => track.stop());
+
+// Root mean square of the current waveform, from 0 (silence) to about 1 (clipping)
+export const readLevel = (analyser: AnalyserNode, samples: Float32Array) => {
+  analyser.getFloatTimeDomainData(samples);
+  const sumOfSquares = samples.reduce((sum, sample) => sum + sample * sample, 0);
+  return Math.sqrt(sumOfSquares / samples.length);
+};
+
+// setSinkId is missing in some browsers; those always play on the system default
+const playOn = async (audio: HTMLAudioElement, outputDeviceId?: string) => {
+  if (outputDeviceId && "setSinkId" in audio) {
+    await audio.setSinkId(outputDeviceId);
+  }
+  await audio.play();
+};
+
+export const playTestTone = async (durationMs: number, outputDeviceId?: string) => {
+  const context = new AudioContext();
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  const destination = context.createMediaStreamDestination();
+  oscillator.frequency.value = TEST_TONE_HZ;
+  gain.gain.value = TEST_TONE_GAIN;
+  oscillator.connect(gain).connect(destination);
+
+  // Routed through an audio element so the chosen speaker can be applied
+  const audio = new Audio();
+  audio.srcObject = destination.stream;
+  try {
+    oscillator.start();
+    await playOn(audio, outputDeviceId);
+    await new Promise((resolve) => setTimeout(resolve, durationMs));
+  } finally {
+    oscillator.stop();
+    audio.pause();
+    await context.close();
+  }
+};
+
+export const recordClip = (stream: MediaStream, durationMs: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType }));
+    recorder.onerror = () => reject(new Error("Recording failed"));
+    recorder.start();
+    setTimeout(() => recorder.stop(), durationMs);
+  });
+
+export const playClip = (clip: Blob, outputDeviceId?: string) =>
+  new Promise<void>((resolve, reject) => {
+    const url = URL.createObjectURL(clip);
+    const audio = new Audio(url);
+    const finish = () => URL.revokeObjectURL(url);
+    audio.onended = () => {
+      finish();
+      resolve();
+    };
+    playOn(audio, outputDeviceId).catch((error) => {
+      finish();
+      reject(error);
+    });
+  });
@@ -0,0 +1,19 @@
+export type BrowserName = "chrome" | "edge" | "firefox" | "safari" | "other";
+
+// Only used to pick help text, so a rough user agent match is enough. Order
+// matters: Edge also claims to be Chrome, and Chrome also claims to be Safari.
+export const detectBrowser = (userAgent = navigator.userAgent): BrowserName => {
+  if (/Edg\//.test(userAgent)) {
+    return "edge";
+  }
+  if (/Firefox\//.test(userAgent)) {
+    return "firefox";
+  }
+  if (/Chrome\//.test(userAgent)) {
+    return "chrome";
+  }
+  if (/Safari\//.test(userAgent)) {
+    return "safari";
+  }
+  return "other";
+};
@@ -0,0 +1,138 @@
+import { z } from "zod";
+
+// Browser-side tools an agent can invoke during a conversation. Each key must
+// match the name of a client tool configured on the agent in ElevenLabs.
+
+const summaryCardSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  points: z.array(z.string().trim().min(1).max(500)).min(1).max(20),
+});
+
+// Cards only ever come from the show_summary_card tool, after its parameters are checked
+export type SummaryCard = z.infer<typeof summaryCardSchema>;
+
+export interface UrlPanel {
+  url: string;
+  title?: string;
+}
+
+export interface ClientToolContext {
+  captureNote: (note: string) => void;
+  openUrl: (url: string, title?: string) => void;
+  showSummaryCard: (card: SummaryCard) => void;
+  switchAgent: (agentName: string) => string | null;
+}
+
+interface ClientToolDefinition<TSchema extends z.ZodTypeAny> {
+  label: string;
+  description: string;
+  parameters: TSchema;
+  run: (parameters: z.infer<TSchema>, context: ClientToolContext) => string;
+}
+
+const defineClientTool = <TSchema extends z.ZodTypeAny>(tool: ClientToolDefinition<TSchema>) => tool;
+
+// Pages on this app's own origin could reach the signed-in session from the frame
+const isExternalHttpsUrl = (url: string) => {
+  try {
+    const { protocol, origin } = new URL(url);
+    return protocol === "https:" && origin !== window.location.origin;
+  } catch {
+    return false;
+  }
+};
+
+export const CLIENT_TOOLS = {
+  capture_note: defineClientTool({
+    label: "Capture note",
+    description: "Saves a note on the agent card for the user to keep",
+    parameters: z.object({
+      note: z.string().trim().min(1).max(2000),
+    }),
+    run: ({ note }, context) => {
+      context.captureNote(note);
+      return "Note captured";
+    },
+  }),
+  open_url: defineClientTool({
+    label: "Open URL",
+    description: "Opens a web page in a side panel next to the conversation",
+    parameters: z.object({
+      url: z.string().url().refine(isExternalHttpsUrl, "Only https URLs on other sites can be opened"),
+      title: z.string().trim().max(200).optional(),
+    }),
+    run: ({ url, title }, context) => {
+      context.openUrl(url, title);
+      return `Opened ${url}`;
+    },
+  }),
+  show_summary_card: defineClientTool({
+    label: "Show summary card",
+    description: "Displays a card with a title and a list of key points",
+    parameters: summaryCardSchema,
+    run: (card, context) => {
+      context.showSummaryCard(card);
+      return "Summary card displayed";
+    },
+  }),
+  switch_agent: defineClientTool({
+    label: "Switch agent",
+    description: "Ends this conversation and hands the user over to another agent by name",
+    parameters: z.object({
+      agent_name: z.string().trim().min(1).max(100),
+    }),
+    run: ({ agent_name }, context) => {
+      const switchedTo = context.switchAgent(agent_name);
+      if (!switchedTo) {
+        throw new Error(`No agent named "${agent_name}"`);
+      }
+      return `Switching to ${switchedTo}`;
+    },
+  }),
+};
+
+export type ClientToolName = keyof typeof CLIENT_TOOLS;
+
+export const CLIENT_TOOL_NAMES = Object.keys(CLIENT_TOOLS) as [ClientToolName, ...ClientToolName[]];
+
+export const isClientToolName = (name: string): name is ClientToolName => name in CLIENT_TOOLS;
+
+export interface ClientToolCall {
+  name: ClientToolName;
+  parameters: unknown;
+  result: string;
+  failed: boolean;
+}
+
+export const formatClientToolCall = ({ name, parameters, result, failed }: ClientToolCall) =>
+  `${CLIENT_TOOLS[name].label} ${JSON.stringify(parameters)} → ${failed ? `failed: ${result}` : result}`;
+
+export const buildClientTools = (
+  enabledTools: string[],
+  context: ClientToolContext,
+  onCall: (call: ClientToolCall) => void,
+) =>
+  Object.fromEntries(
+    enabledTools.filter(isClientToolName).map((name) => [
+      name,
+      (parameters: unknown) => {
+        const tool = CLIENT_TOOLS[name];
+        const parsed = tool.parameters.safeParse(parameters);
+        if (!parsed.success) {
+          const result = parsed.error.errors[0].message;
+          onCall({ name, parameters, result, failed: true });
+          return `Error: ${result}`;
+        }
+
+        try {
+          const result = tool.run(parsed.data, context);
+          onCall({ name, parameters, result, failed: false });
+          return result;
+        } catch (error) {
+          const result = error instanceof Error ? error.message : String(error);
+          onCall({ name, parameters, result, failed: true });
+          return `Error: ${result}`;
+        }
+      },
+    ]),
+  );
@@ -0,0 +1,36 @@
+import type { SessionCredentials } from "@/lib/elevenlabs-session";
+import type { VoiceDisconnectDetails } from "@/lib/voice-provider";
+
+export type ConnectionType = SessionCredentials["connectionType"];
+
+// WebRTC gives the best audio, but many corporate networks block it
+export const VOICE_CONNECTION_TYPES: ConnectionType[] = ["webrtc", "websocket"];
+export const TEXT_CONNECTION_TYPES: ConnectionType[] = ["websocket"];
+
+export const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+
+export const reconnectDelay = (attempt: number) =>
+  Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+
+// Only transport errors are unexpected; the user or agent hanging up is final
+export const shouldReconnect = (details: VoiceDisconnectDetails) => details.reason === "error";
+
+export const describeDisconnect = (details: VoiceDisconnectDetails) => {
+  switch (details.reason) {
+    case "user":
+      return "You ended the conversation";
+    case "agent":
+      return details.message
+        ? `The agent ended the conversation: ${details.message}`
+        : "The agent ended the conversation";
+    case "error":
+      return `Connection lost: ${details.message || "unknown error"}`;
+  }
+};
+
+export const CONNECTION_TYPE_LABELS: Record<ConnectionType, string> = {
+  webrtc: "WebRTC",
+  websocket: "WebSocket",
+};
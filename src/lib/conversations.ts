@@ -0,0 +1,279 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { TranscriptEntry } from "@/lib/transcript";
+import { getSummarizer, parseSessionSummary, summaryToJson, type SessionSummary } from "@/lib/summarizer";
+
+export type ConversationEndReason = Database["public"]["Enums"]["conversation_end_reason"];
+
+export const END_REASON_LABELS: Record<ConversationEndReason, string> = {
+  user: "Ended by you",
+  agent: "Ended by the agent",
+  error: "Connection lost",
+  navigation: "Ended when you left the page",
+  page_closed: "Ended when the tab closed",
+  idle_timeout: "Ended after silence",
+};
+
+// Persistence failures are logged rather than surfaced: losing a stored
+// transcript line should never interrupt a live conversation.
+
+export const createConversationRecord = async (
+  agentRowId: string,
+  elevenlabsConversationId: string,
+  squad = false,
+): Promise<string | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert({
+      user_id: session.user.id,
+      agent_id: agentRowId,
+      elevenlabs_conversation_id: elevenlabsConversationId,
+      squad,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error("Failed to record conversation:", error);
+    return null;
+  }
+
+  return data.id;
+};
+
+export const recordConversationMessage = async (
+  conversationId: string,
+  entry: TranscriptEntry,
+  agentRowId: string | null,
+) => {
+  const { error } = await supabase
+    .from('conversation_messages')
+    .insert({
+      // Reuse the entry's id so feedback given during the call can point at this row
+      id: entry.id,
+      conversation_id: conversationId,
+      agent_id: agentRowId,
+      source: entry.source,
+      message: entry.message,
+      created_at: entry.timestamp.toISOString(),
+    });
+
+  if (error) {
+    console.error("Failed to record conversation message:", error);
+  }
+};
+
+export const endConversationRecord = async (
+  conversationId: string,
+  endReason: ConversationEndReason,
+) => {
+  const { error } = await supabase
+    .from('conversations')
+    .update({
+      ended_at: new Date().toISOString(),
+      end_reason: endReason,
+    })
+    .eq('id', conversationId);
+
+  if (error) {
+    console.error("Failed to record conversation end:", error);
+  }
+};
+
+// Requests made while a page unloads are cancelled, so the final update goes
+// straight to the REST endpoint as a keepalive fetch that outlives the page.
+export const endConversationRecordOnUnload = (
+  conversationId: string,
+  endReason: ConversationEndReason,
+  accessToken: string,
+) => {
+  fetch(`${import.meta.env.VITE_SUPABASE_URL}/rest/v1/conversations?id=eq.${conversationId}`, {
+    method: "PATCH",
+    keepalive: true,
+    headers: {
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+      Prefer: "return=minimal",
+    },
+    body: JSON.stringify({ ended_at: new Date().toISOString(), end_reason: endReason }),
+  }).catch((error) => console.error("Failed to record conversation end:", error));
+};
+
+export interface StoredConversation {
+  id: string;
+  agentId: string | null;
+  agentName: string;
+  squad: boolean;
+  startedAt: Date;
+  endedAt: Date | null;
+  endReason: ConversationEndReason | null;
+  summary: SessionSummary | null;
+}
+
+export interface ConversationFilters {
+  agentId?: string;
+  from?: Date;
+  to?: Date;
+  search?: string;
+}
+
+// Escape LIKE wildcards so user input is matched literally
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+export const fetchConversations = async (
+  userId: string,
+  filters: ConversationFilters,
+): Promise<StoredConversation[]> => {
+  // Searching joins the messages in, so only conversations with a matching line
+  // come back and the match is scoped to this user's conversations by the database
+  const search = filters.search?.trim();
+  let query = search
+    ? supabase
+        .from('conversations')
+        .select('id, agent_id, squad, started_at, ended_at, end_reason, summary, agents(name), conversation_messages!inner(id), agent_messages:conversation_messages(id)')
+        .ilike('conversation_messages.message', `%${escapeLikePattern(search)}%`)
+    : supabase
+        .from('conversations')
+        .select('id, agent_id, squad, started_at, ended_at, end_reason, summary, agents(name), agent_messages:conversation_messages(id)');
+
+  // One message is enough to tell whether an agent spoke
+  query = query
+    .eq('user_id', userId)
+    .limit(1, { referencedTable: 'agent_messages' })
+    .order('started_at', { ascending: false });
+
+  // Squad sessions are stored under the agent that opened them, so agents that
+  // took over later are matched through the messages they sent
+  if (filters.agentId) {
+    query = query
+      .eq('agent_messages.agent_id', filters.agentId)
+      .or(`agent_id.eq.${filters.agentId},agent_messages.not.is.null`);
+  }
+  if (filters.from) {
+    query = query.gte('started_at', filters.from.toISOString());
+  }
+  if (filters.to) {
+    query = query.lte('started_at', filters.to.toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw error;
+  }
+
+  return data.map((conversation) => ({
+    id: conversation.id,
+    agentId: conversation.agent_id,
+    agentName: conversation.agents?.name ?? "Deleted agent",
+    squad: conversation.squad,
+    startedAt: new Date(conversation.started_at),
+    endedAt: conversation.ended_at ? new Date(conversation.ended_at) : null,
+    endReason: conversation.end_reason,
+    summary: parseSessionSummary(conversation.summary),
+  }));
+};
+
+export const fetchConversationTranscript = async (
+  conversationId: string,
+): Promise<TranscriptEntry[]> => {
+  const { data, error } = await supabase
+    .from('conversation_messages')
+    .select('id, source, message, created_at, agents(name)')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data.map((message) => ({
+    id: message.id,
+    source: message.source,
+    message: message.message,
+    timestamp: new Date(message.created_at),
+    agentName: message.agents?.name,
+  }));
+};
+
+// Agent settings that describe a conversation in exports; provider ids, prompts and health are left out
+export interface ConversationAgent {
+  id: string;
+  name: string;
+  voiceProvider: Database["public"]["Enums"]["voice_provider"];
+  voiceId: string | null;
+  language: string | null;
+  llm: string | null;
+  bio: string | null;
+}
+
+// Squad sessions hand over between agents, so every agent that spoke is included
+export const fetchConversationAgents = async (
+  conversation: StoredConversation,
+): Promise<ConversationAgent[]> => {
+  const { data: messages, error: messagesError } = await supabase
+    .from('conversation_messages')
+    .select('agent_id')
+    .eq('conversation_id', conversation.id);
+
+  if (messagesError) {
+    throw messagesError;
+  }
+
+  const agentIds = [
+    ...new Set([conversation.agentId, ...messages.map(({ agent_id }) => agent_id)]),
+  ].filter((id): id is string => id !== null);
+  if (agentIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('agents')
+    .select('id, name, voice_provider, voice_id, language, llm, bio')
+    .in('id', agentIds);
+
+  if (error) {
+    throw error;
+  }
+
+  return data.map((agent) => ({
+    id: agent.id,
+    name: agent.name,
+    voiceProvider: agent.voice_provider,
+    voiceId: agent.voice_id,
+    language: agent.language,
+    llm: agent.llm,
+    bio: agent.bio,
+  }));
+};
+
+export const saveConversationSummary = async (conversationId: string, summary: SessionSummary) => {
+  const { error } = await supabase
+    .from('conversations')
+    .update({
+      summary: summaryToJson(summary),
+      summary_updated_at: new Date().toISOString(),
+    })
+    .eq('id', conversationId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Works from the stored transcript rather than the live one, so a summary
+// generated later from history matches one made when the call ended.
+export const summarizeConversation = async (
+  conversationId: string,
+  agentName: string,
+): Promise<SessionSummary> => {
+  const transcript = await fetchConversationTranscript(conversationId);
+  const summary = await getSummarizer().summarize(transcript, { agentName });
+  await saveConversationSummary(conversationId, summary);
+  return summary;
+};
@@ -0,0 +1,184 @@
+import { supabase } from "@/integrations/supabase/client";
+import { fetchSessionCredentials } from "@/lib/elevenlabs-session";
+
+export type DiagnosticStatus = "pass" | "warn" | "fail";
+
+export interface DiagnosticResult {
+  status: DiagnosticStatus;
+  detail: string;
+}
+
+export type DiagnosticCheckId =
+  | "microphone"
+  | "speaker"
+  | "loopback"
+  | "supabase"
+  | "websocket"
+  | "webrtc";
+
+export const DIAGNOSTIC_CHECK_LABELS: Record<DiagnosticCheckId, string> = {
+  microphone: "Microphone level",
+  speaker: "Speaker test tone",
+  loopback: "Record and playback",
+  supabase: "Signed-in session",
+  websocket: "WebSocket connection",
+  webrtc: "WebRTC connection",
+};
+
+// The WebRTC server the ElevenLabs SDK connects to unless told otherwise
+const LIVEKIT_URL = "https://livekit.rtc.elevenlabs.io";
+const STUN_SERVER = "stun:stun.l.google.com:19302";
+const NETWORK_TIMEOUT_MS = 8000;
+const SESSION_EXPIRY_WARNING_MS = 5 * 60 * 1000;
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export const checkSupabaseSession = async (): Promise<DiagnosticResult> => {
+  // getUser asks the auth server, so a revoked or expired token is caught too
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) {
+    return { status: "fail", detail: error?.message ?? "Not signed in" };
+  }
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const expiresAt = session?.expires_at ? session.expires_at * 1000 : null;
+  if (expiresAt && expiresAt - Date.now() < SESSION_EXPIRY_WARNING_MS) {
+    return { status: "warn", detail: `Signed in as ${user.email}, but the session expires in under 5 minutes` };
+  }
+
+  return { status: "pass", detail: `Signed in as ${user.email}` };
+};
+
+// Opens a real conversation socket and closes it as soon as it connects. This
+// starts a conversation with the agent, so it briefly shows in ElevenLabs.
+export const checkWebSocket = async (agentRowId: string): Promise<DiagnosticResult> => {
+  let signedUrl: string;
+  try {
+    const credentials = await fetchSessionCredentials(agentRowId, "websocket");
+    signedUrl = credentials.connectionType === "websocket" ? credentials.signedUrl : "";
+  } catch (error) {
+    return { status: "fail", detail: `Could not get a signed URL: ${describeError(error)}` };
+  }
+
+  return new Promise((resolve) => {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(signedUrl);
+    } catch (error) {
+      resolve({ status: "fail", detail: `Could not open the WebSocket: ${describeError(error)}` });
+      return;
+    }
+    const timer = setTimeout(() => {
+      socket.close();
+      resolve({ status: "fail", detail: "Timed out opening the WebSocket" });
+    }, NETWORK_TIMEOUT_MS);
+
+    socket.onopen = () => {
+      clearTimeout(timer);
+      socket.close();
+      resolve({
+        status: "pass",
+        detail: `Connected to ${new URL(signedUrl).host} (opened a conversation with the agent and hung up at once)`,
+      });
+    };
+    socket.onerror = () => {
+      clearTimeout(timer);
+      resolve({ status: "fail", detail: `Could not reach ${new URL(signedUrl).host}` });
+    };
+  });
+};
+
+// Resolves true once the browser finds its public address through STUN, which
+// means outbound UDP works. Without it WebRTC has to relay over TCP, if at all.
+// Rejects if the browser can't set up a peer connection at all.
+const canReachStunServer = () =>
+  new Promise<boolean>((resolve, reject) => {
+    const connection = new RTCPeerConnection({ iceServers: [{ urls: STUN_SERVER }] });
+    const finish = (reachable: boolean) => {
+      clearTimeout(timer);
+      connection.close();
+      resolve(reachable);
+    };
+    const timer = setTimeout(() => finish(false), NETWORK_TIMEOUT_MS);
+
+    connection.onicecandidate = ({ candidate }) => {
+      if (candidate?.type === "srflx") {
+        finish(true);
+      } else if (!candidate) {
+        finish(false);
+      }
+    };
+    connection.createDataChannel("diagnostics");
+    connection
+      .createOffer()
+      .then((offer) => connection.setLocalDescription(offer))
+      .catch((error) => {
+        clearTimeout(timer);
+        connection.close();
+        reject(error);
+      });
+  });
+
+export const checkWebRtc = async (agentRowId: string): Promise<DiagnosticResult> => {
+  if (typeof RTCPeerConnection === "undefined") {
+    return { status: "fail", detail: "This browser does not support WebRTC" };
+  }
+
+  let conversationToken: string;
+  try {
+    const credentials = await fetchSessionCredentials(agentRowId, "webrtc");
+    conversationToken = credentials.connectionType === "webrtc" ? credentials.conversationToken : "";
+  } catch (error) {
+    return { status: "fail", detail: `Could not get a conversation token: ${describeError(error)}` };
+  }
+
+  try {
+    const response = await fetch(
+      `${LIVEKIT_URL}/rtc/validate?access_token=${encodeURIComponent(conversationToken)}`,
+      { signal: AbortSignal.timeout(NETWORK_TIMEOUT_MS) },
+    );
+    if (!response.ok) {
+      return { status: "fail", detail: `The WebRTC server rejected the token (HTTP ${response.status})` };
+    }
+  } catch (error) {
+    return { status: "fail", detail: `Could not reach ${new URL(LIVEKIT_URL).host}: ${describeError(error)}` };
+  }
+
+  let udpOpen: boolean;
+  try {
+    udpOpen = await canReachStunServer();
+  } catch (error) {
+    return { status: "fail", detail: `Could not start a WebRTC connection: ${describeError(error)}` };
+  }
+
+  if (!udpOpen) {
+    return {
+      status: "warn",
+      detail: "The WebRTC server is reachable but UDP looks blocked, so calls may fall back to WebSocket",
+    };
+  }
+
+  return { status: "pass", detail: `Connected to ${new URL(LIVEKIT_URL).host} and UDP is open` };
+};
+
+export const formatDiagnosticsReport = (
+  results: Partial<Record<DiagnosticCheckId, DiagnosticResult>>,
+) => {
+  const lines = [
+    "Co-design Squad diagnostics report",
+    `Date: ${new Date().toISOString()}`,
+    `Browser: ${navigator.userAgent}`,
+    "",
+  ];
+
+  (Object.keys(DIAGNOSTIC_CHECK_LABELS) as DiagnosticCheckId[]).forEach((id) => {
+    const result = results[id];
+    lines.push(
+      result
+        ? `[${result.status.toUpperCase()}] ${DIAGNOSTIC_CHECK_LABELS[id]}: ${result.detail}`
+        : `[NOT RUN] ${DIAGNOSTIC_CHECK_LABELS[id]}`,
+    );
+  });
+
+  return lines.join("\n");
+};
@@ -0,0 +1,18 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+// Our edge functions report failures as JSON { error }, which supabase-js
+// leaves inside the response; surface that message instead of a generic one.
+export const invokeEdgeFunction = async <T>(name: string, body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const errorBody = await error.context.json().catch(() => null);
+      throw new Error(errorBody?.error ?? error.message);
+    }
+    throw error;
+  }
+
+  return data as T;
+};
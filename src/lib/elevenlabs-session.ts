@@ -0,0 +1,26 @@
+import { invokeEdgeFunction } from "@/lib/edge-functions";
+
+export type SessionCredentials = (
+  | { connectionType: "webrtc"; conversationToken: string }
+  | { connectionType: "websocket"; signedUrl: string }
+) & {
+  // Sent with the session so ElevenLabs records who started it
+  userId: string;
+};
+
+// Exchanges an agent row for short-lived credentials from the elevenlabs-session
+// edge function, so agents can stay private and the API key never reaches the browser.
+export const fetchSessionCredentials = async (
+  agentRowId: string,
+  connectionType: SessionCredentials["connectionType"],
+): Promise<SessionCredentials> => {
+  const data = await invokeEdgeFunction<{
+    conversationToken?: string;
+    signedUrl?: string;
+    userId: string;
+  }>('elevenlabs-session', { agentRowId, connectionType });
+
+  return connectionType === "webrtc"
+    ? { connectionType, conversationToken: data.conversationToken, userId: data.userId }
+    : { connectionType, signedUrl: data.signedUrl, userId: data.userId };
+};
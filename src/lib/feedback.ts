@@ -0,0 +1,96 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type MessageFeedbackRating = Database["public"]["Enums"]["message_feedback_rating"];
+
+export const MAX_RATING_COMMENT_LENGTH = 2000;
+
+export interface AgentFeedbackSummary {
+  ratingCount: number;
+  averageRating: number | null;
+  likeCount: number;
+  dislikeCount: number;
+}
+
+// A vote can be changed, so the message's existing row is overwritten.
+// Failures are thrown so the pressed button can be reset.
+export const recordMessageFeedback = async (
+  conversationId: string,
+  messageId: string,
+  agentRowId: string | null,
+  rating: MessageFeedbackRating,
+) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error("You need to be signed in to rate a message");
+  }
+
+  const { error } = await supabase
+    .from('message_feedback')
+    .upsert(
+      {
+        message_id: messageId,
+        conversation_id: conversationId,
+        agent_id: agentRowId,
+        user_id: session.user.id,
+        rating,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'message_id' },
+    );
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const saveConversationRating = async (
+  conversationId: string,
+  agentRowId: string | null,
+  rating: number,
+  comment: string,
+) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error("You need to be signed in to rate a conversation");
+  }
+
+  const { error } = await supabase
+    .from('conversation_ratings')
+    .insert({
+      conversation_id: conversationId,
+      agent_id: agentRowId,
+      user_id: session.user.id,
+      rating,
+      comment: comment.trim() || null,
+    });
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Keyed by agent row id. Admins see every user's feedback, others only their own.
+export const fetchAgentFeedbackSummaries = async (): Promise<Record<string, AgentFeedbackSummary>> => {
+  const { data, error } = await supabase
+    .from('agent_feedback_summary')
+    .select('*');
+
+  if (error) {
+    throw error;
+  }
+
+  return Object.fromEntries(
+    data
+      .filter((summary) => summary.agent_id)
+      .map((summary) => [
+        summary.agent_id,
+        {
+          ratingCount: summary.rating_count ?? 0,
+          averageRating: summary.average_rating,
+          likeCount: summary.like_count ?? 0,
+          dislikeCount: summary.dislike_count ?? 0,
+        },
+      ]),
+  );
+};
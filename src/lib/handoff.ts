@@ -0,0 +1,47 @@
+import type { TranscriptEntry } from "@/lib/transcript";
+
+// Context handed to the next agent in a squad session. It is sent as a
+// contextual update, so it has to stay short enough not to crowd out the
+// agent's own prompt.
+
+const HANDOFF_TURNS = 6;
+const MAX_TURN_LENGTH = 240;
+const MAX_NOTES = 5;
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+
+export const buildHandoffSummary = (
+  fromAgentName: string,
+  toAgentName: string,
+  transcript: TranscriptEntry[],
+  notes: string[],
+) => {
+  const turns = transcript.filter((entry) => entry.source === "user" || entry.source === "ai");
+  const openingRequest = turns.find((entry) => entry.source === "user");
+  const recentTurns = turns.slice(-HANDOFF_TURNS);
+
+  const lines = [
+    `You are ${toAgentName}, taking over a co-design squad session from ${fromAgentName}.`,
+    "Continue from where they left off and do not ask the user to repeat themselves.",
+  ];
+
+  if (openingRequest && !recentTurns.includes(openingRequest)) {
+    lines.push(`The user opened with: "${truncate(openingRequest.message, MAX_TURN_LENGTH)}"`);
+  }
+
+  if (recentTurns.length > 0) {
+    lines.push("Most recent exchange:");
+    recentTurns.forEach((entry) => {
+      const speaker = entry.source === "user" ? "User" : entry.agentName ?? fromAgentName;
+      lines.push(`- ${speaker}: ${truncate(entry.message, MAX_TURN_LENGTH)}`);
+    });
+  }
+
+  if (notes.length > 0) {
+    lines.push("Notes captured so far:");
+    notes.slice(-MAX_NOTES).forEach((note) => lines.push(`- ${truncate(note, MAX_TURN_LENGTH)}`));
+  }
+
+  return lines.join("\n");
+};
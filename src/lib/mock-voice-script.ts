@@ -0,0 +1,57 @@
+import type { ClientToolName } from "@/lib/client-tools";
+
+// What the local demo provider says. In voice mode it also plays the user's
+// side, since there is no speech recognition to hear them; typed messages get
+// the next reply in line instead.
+
+export interface MockExchange {
+  user: string;
+  reply: string;
+  // Called before the reply when the agent has the tool enabled
+  tool?: { name: ClientToolName; parameters: Record<string, unknown> };
+}
+
+export const MOCK_FIRST_MESSAGE =
+  "Hi, I'm a demo agent running in your browser, so nothing here reaches a real AI. What are we working on today?";
+
+export const MOCK_CONTEXT_ACKNOWLEDGEMENT = "Thanks for the extra context, I'll keep that in mind.";
+
+export const MOCK_CLOSING_MESSAGE = "That's the end of my demo script. Thanks for trying the local demo!";
+
+export const MOCK_SCRIPT: MockExchange[] = [
+  {
+    user: "We're redesigning the onboarding journey for new small business customers.",
+    reply:
+      "Great topic. Onboarding is where most small business customers decide whether to stay. Who is involved in the journey today?",
+  },
+  {
+    user: "Sales hands over to an onboarding team, and then support takes over after the first month.",
+    reply:
+      "So there are two handovers in the first month. I've noted that down. Handovers are usually where customers feel dropped.",
+    tool: {
+      name: "capture_note",
+      parameters: { note: "Two handovers in the first month: sales to onboarding, then onboarding to support." },
+    },
+  },
+  {
+    user: "We decided to focus on the first handover from sales to onboarding.",
+    reply:
+      "Good choice. Here is what I would look at first for that handover.",
+    tool: {
+      name: "show_summary_card",
+      parameters: {
+        title: "Sales to onboarding handover",
+        points: [
+          "What the customer was promised during the sale",
+          "How long they wait before onboarding gets in touch",
+          "Which details they are asked for twice",
+        ],
+      },
+    },
+  },
+  {
+    user: "I will book interviews with five recent customers before the next workshop.",
+    reply:
+      "That would give us real evidence. I'll draft an interview guide you can use for those conversations.",
+  },
+];
@@ -0,0 +1,42 @@
+import type { TranscriptEntry } from "@/lib/transcript";
+
+// Lines stored transcript turns up with a recording. Only the time each turn
+// arrived is stored, so a turn is taken to last until the next one starts;
+// positions are close enough to find a moment, not to the word.
+
+export interface PlaybackTurn {
+  entryId: string;
+  speaker: "user" | "ai";
+  // Seconds into the recording
+  start: number;
+  end: number;
+}
+
+export const buildPlaybackTurns = (
+  entries: TranscriptEntry[],
+  recordingStartedAt: Date,
+  // Start of the next part of the recording, whose turns belong to it instead
+  nextRecordingStartedAt: Date | null,
+  duration: number,
+): PlaybackTurn[] => {
+  const turns = entries
+    .filter(({ source }) => source === "user" || source === "ai")
+    .filter(({ timestamp }) =>
+      timestamp >= recordingStartedAt && (!nextRecordingStartedAt || timestamp < nextRecordingStartedAt),
+    )
+    .map((entry) => ({
+      entryId: entry.id,
+      speaker: entry.source as PlaybackTurn["speaker"],
+      start: Math.min((entry.timestamp.getTime() - recordingStartedAt.getTime()) / 1000, duration),
+    }));
+
+  return turns.map((turn, index) => ({ ...turn, end: turns[index + 1]?.start ?? duration }));
+};
+
+export const findTurnAt = (turns: PlaybackTurn[], time: number) =>
+  turns.find(({ start, end }) => time >= start && time < end) ?? null;
+
+export const formatPlaybackTime = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
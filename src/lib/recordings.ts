@@ -0,0 +1,147 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { invokeEdgeFunction } from "@/lib/edge-functions";
+
+export type RecordingStatus = Database["public"]["Enums"]["recording_status"];
+
+const RECORDINGS_BUCKET = "conversation-recordings";
+
+// Long enough to listen through a workshop without the link expiring
+const PLAYBACK_URL_SECONDS = 60 * 60 * 4;
+
+// ElevenLabs usually has the audio ready within a minute of the call ending
+const UPLOAD_RETRY_DELAYS_MS = [5000, 15000, 40000];
+
+// Stored with every consent, so the log shows exactly what the user agreed to
+export const RECORDING_CONSENT_TEXT =
+  "The audio of this conversation, both your voice and the agent's, will be recorded and stored with its " +
+  "transcript. You and administrators of this workspace can play it back from History.";
+
+// Recording only decides whether a copy is kept here; the voice provider
+// handles the audio to run the call and keeps it under its own retention
+export const PROVIDER_AUDIO_NOTICE =
+  "Whether or not you choose to record, ElevenLabs, which runs the voice conversation, keeps its own copy of " +
+  "the audio under its retention settings. This choice only decides whether a copy is stored in this workspace.";
+
+export interface ConversationRecording {
+  id: string;
+  agentName: string | null;
+  status: RecordingStatus;
+  detail: string | null;
+  // When the audio begins
+  createdAt: Date;
+  // Signed link for playback, set once the audio is stored
+  url: string | null;
+}
+
+// Recording never starts without a logged consent, so failures are thrown
+export const logRecordingConsent = async (agentRowId: string): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error("Sign in to record conversations");
+  }
+
+  const { data, error } = await supabase
+    .from('recording_consents')
+    .insert({
+      user_id: session.user.id,
+      agent_id: agentRowId,
+      consent_text: RECORDING_CONSENT_TEXT,
+      user_agent: navigator.userAgent,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data.id;
+};
+
+// Like transcript lines, a missed recording row is logged rather than ending the call
+export const addConversationRecording = async (
+  conversationId: string,
+  consentId: string,
+  agentRowId: string,
+  elevenlabsConversationId: string,
+  startedAt: Date,
+) => {
+  const { error } = await supabase
+    .from('conversation_recordings')
+    .insert({
+      conversation_id: conversationId,
+      consent_id: consentId,
+      agent_id: agentRowId,
+      elevenlabs_conversation_id: elevenlabsConversationId,
+      // When the audio begins, which playback uses to line the transcript up with it
+      created_at: startedAt.toISOString(),
+    });
+
+  if (error) {
+    console.error("Failed to record conversation recording:", error);
+  }
+};
+
+// Returns how many recordings are still waiting for their audio
+export const storeConversationRecordings = async (conversationId: string) => {
+  const { pending } = await invokeEdgeFunction<{ pending: number }>('store-conversation-recordings', {
+    conversationId,
+  });
+  return pending;
+};
+
+// Runs in the background after a call, so it gives up quietly; History can try again
+export const storeConversationRecordingsWhenReady = async (conversationId: string) => {
+  for (const delay of UPLOAD_RETRY_DELAYS_MS) {
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    try {
+      if ((await storeConversationRecordings(conversationId)) === 0) {
+        return;
+      }
+    } catch (error) {
+      console.error("Failed to store conversation recordings:", error);
+      return;
+    }
+  }
+};
+
+export const fetchConversationRecordings = async (
+  conversationId: string,
+): Promise<ConversationRecording[]> => {
+  const { data, error } = await supabase
+    .from('conversation_recordings')
+    .select('id, status, detail, storage_path, created_at, agents(name)')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  const paths = data.map(({ storage_path }) => storage_path).filter((path): path is string => path !== null);
+  const urls = new Map<string, string>();
+  if (paths.length > 0) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from(RECORDINGS_BUCKET)
+      .createSignedUrls(paths, PLAYBACK_URL_SECONDS);
+
+    if (signError) {
+      throw signError;
+    }
+    signed.forEach(({ path, signedUrl }) => {
+      if (path && signedUrl) {
+        urls.set(path, signedUrl);
+      }
+    });
+  }
+
+  return data.map((recording) => ({
+    id: recording.id,
+    agentName: recording.agents?.name ?? null,
+    status: recording.status,
+    detail: recording.detail,
+    createdAt: new Date(recording.created_at),
+    url: recording.storage_path ? urls.get(recording.storage_path) ?? null : null,
+  }));
+};
@@ -0,0 +1,213 @@
+import { z } from "zod";
+import type { Json } from "@/integrations/supabase/types";
+import type { TranscriptEntry } from "@/lib/transcript";
+
+// Post-session summaries are produced by a summarizer picked with
+// VITE_SESSION_SUMMARIZER. The local one is rule-based, so it works offline and
+// the same transcript always produces the same summary; model-backed
+// summarizers can be added to SUMMARIZERS without touching the callers.
+
+export interface ActionItem {
+  task: string;
+  // Null when the transcript does not say who will do it
+  owner: string | null;
+}
+
+export interface SessionSummary {
+  keyPoints: string[];
+  decisions: string[];
+  actionItems: ActionItem[];
+}
+
+export interface SummarizerContext {
+  // Speaker for agent turns that were not tagged with a name
+  agentName: string;
+}
+
+export interface Summarizer {
+  id: string;
+  summarize: (transcript: TranscriptEntry[], context: SummarizerContext) => Promise<SessionSummary>;
+}
+
+const sessionSummarySchema = z.object({
+  keyPoints: z.array(z.string()),
+  decisions: z.array(z.string()),
+  actionItems: z.array(z.object({ task: z.string(), owner: z.string().nullable() })),
+});
+
+export const EMPTY_SUMMARY: SessionSummary = { keyPoints: [], decisions: [], actionItems: [] };
+
+// Rows written by an older app version, or edited by hand, may not match the shape
+export const parseSessionSummary = (value: Json | null): SessionSummary | null => {
+  const result = sessionSummarySchema.safeParse(value);
+  return result.success ? (result.data as SessionSummary) : null;
+};
+
+export const summaryToJson = ({ keyPoints, decisions, actionItems }: SessionSummary): Json => ({
+  keyPoints,
+  decisions,
+  actionItems: actionItems.map(({ task, owner }) => ({ task, owner })),
+});
+
+export const isSummaryEmpty = (summary: SessionSummary) =>
+  summary.keyPoints.length === 0 && summary.decisions.length === 0 && summary.actionItems.length === 0;
+
+export const formatSummaryAsMarkdown = (summary: SessionSummary, title: string) => {
+  const lines = [`# ${title}`];
+  const section = (heading: string, items: string[]) => {
+    lines.push("", `## ${heading}`);
+    lines.push(...(items.length > 0 ? items.map((item) => `- ${item}`) : ["- None"]));
+  };
+
+  section("Key points", summary.keyPoints);
+  section("Decisions", summary.decisions);
+  section(
+    "Action items",
+    summary.actionItems.map(({ task, owner }) => (owner ? `${task} (owner: ${owner})` : task)),
+  );
+
+  return lines.join("\n");
+};
+
+const MAX_KEY_POINTS = 5;
+const MAX_DECISIONS = 5;
+const MAX_ACTION_ITEMS = 8;
+const MAX_SENTENCE_LENGTH = 240;
+const MIN_SENTENCE_WORDS = 4;
+
+const DECISION_PATTERN =
+  /\b(?:we(?:'ve| have)? (?:decided|agreed)|(?:decided|agreed) to|let's go with|we(?:'ll| will) go with|the decision is|settled on)\b/i;
+const COMMITMENT_PATTERN =
+  /\b(I|[Ww]e|[Yy]ou|[A-Z][a-z]+)(?:\s+will|'ll|’ll|\s+needs? to|\s+(?:am|is|are) going to)\s+(?!be\b)/;
+const ACTION_KEYWORD_PATTERN = /\b(?:action item|next step|follow[ -]up|to-?do)\b/i;
+
+// Capitalized words that start a sentence but never name a person
+const NON_OWNER_WORDS = new Set([
+  "It", "This", "That", "There", "These", "Those", "He", "She", "They", "What", "Which", "Who", "Everyone", "Nobody",
+]);
+
+const STOP_WORDS = new Set(
+  (
+    "a about after again all also am an and any are as at be because been before being but by can could did do does " +
+    "doing for from had has have having he her here hers him his how i if in into is it its just let me more most my " +
+    "no not now of on once only or other our out over own same she should so some such than that the their them then " +
+    "there these they this those through to too under until up very was we were what when where which while who why " +
+    "will with would you your yes okay ok really think know like going get got want sure great well right"
+  ).split(" "),
+);
+
+interface Sentence {
+  text: string;
+  speaker: string;
+  fromUser: boolean;
+  position: number;
+}
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+
+const toWords = (text: string): string[] => text.toLowerCase().match(/[a-z][a-z'-]+/g) ?? [];
+
+const splitSentences = (transcript: TranscriptEntry[], agentName: string): Sentence[] =>
+  transcript
+    .filter((entry) => entry.source === "user" || entry.source === "ai")
+    .flatMap((entry) =>
+      entry.message
+        .split(/(?<=[.!?])\s+|\n+/)
+        .map((text) => text.trim())
+        .filter((text) => toWords(text).length >= MIN_SENTENCE_WORDS)
+        .map((text) => ({
+          text: truncate(text, MAX_SENTENCE_LENGTH),
+          speaker: entry.source === "user" ? "You" : entry.agentName ?? agentName,
+          fromUser: entry.source === "user",
+        })),
+    )
+    .map((sentence, position) => ({ ...sentence, position }));
+
+// "I" is whoever is speaking and "you" is the other side of the conversation
+const resolveOwner = (subject: string, sentence: Sentence, agentName: string) => {
+  switch (subject.toLowerCase()) {
+    case "i":
+      return sentence.speaker;
+    case "you":
+      return sentence.fromUser ? agentName : "You";
+    case "we":
+      return null;
+    default:
+      return NON_OWNER_WORDS.has(subject) ? null : subject;
+  }
+};
+
+const findActionItem = (sentence: Sentence, agentName: string): ActionItem | null => {
+  const commitment = sentence.text.match(COMMITMENT_PATTERN);
+  if (commitment) {
+    return { task: sentence.text, owner: resolveOwner(commitment[1], sentence, agentName) };
+  }
+  return ACTION_KEYWORD_PATTERN.test(sentence.text) ? { task: sentence.text, owner: null } : null;
+};
+
+// Classic frequency-based extraction: sentences that use the conversation's most
+// repeated words score highest. Ties go to the earlier sentence.
+const pickKeyPoints = (sentences: Sentence[], count: number) => {
+  const frequencies = new Map<string, number>();
+  sentences.forEach(({ text }) =>
+    toWords(text)
+      .filter((word) => !STOP_WORDS.has(word))
+      .forEach((word) => frequencies.set(word, (frequencies.get(word) ?? 0) + 1)),
+  );
+
+  const score = ({ text }: Sentence) => {
+    const words = toWords(text);
+    const total = words.reduce((sum, word) => sum + (STOP_WORDS.has(word) ? 0 : frequencies.get(word) ?? 0), 0);
+    return total / words.length;
+  };
+
+  return sentences
+    .map((sentence) => ({ sentence, score: score(sentence) }))
+    .sort((a, b) => b.score - a.score || a.sentence.position - b.sentence.position)
+    .slice(0, count)
+    .map(({ sentence }) => sentence)
+    .sort((a, b) => a.position - b.position);
+};
+
+const uniqueBy = <T>(items: T[], key: (item: T) => string) => {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const value = key(item).toLowerCase();
+    if (seen.has(value)) {
+      return false;
+    }
+    seen.add(value);
+    return true;
+  });
+};
+
+export const localSummarizer: Summarizer = {
+  id: "local",
+  summarize: async (transcript, { agentName }) => {
+    const sentences = uniqueBy(splitSentences(transcript, agentName), ({ text }) => text);
+
+    const decisions = sentences.filter(({ text }) => DECISION_PATTERN.test(text));
+    const actionSentences = sentences.filter((sentence) => !decisions.includes(sentence));
+    const actionItems = actionSentences
+      .map((sentence) => ({ sentence, item: findActionItem(sentence, agentName) }))
+      .filter(({ item }) => item !== null);
+    const usedSentences = new Set([...decisions, ...actionItems.map(({ sentence }) => sentence)]);
+
+    return {
+      keyPoints: pickKeyPoints(
+        sentences.filter((sentence) => !usedSentences.has(sentence)),
+        MAX_KEY_POINTS,
+      ).map(({ speaker, text }) => `${speaker}: ${text}`),
+      decisions: decisions.slice(0, MAX_DECISIONS).map(({ text }) => text),
+      actionItems: actionItems.slice(0, MAX_ACTION_ITEMS).map(({ item }) => item),
+    };
+  },
+};
+
+const SUMMARIZERS: Record<string, Summarizer> = {
+  [localSummarizer.id]: localSummarizer,
+};
+
+export const getSummarizer = (): Summarizer =>
+  SUMMARIZERS[import.meta.env.VITE_SESSION_SUMMARIZER ?? localSummarizer.id] ?? localSummarizer;
@@ -0,0 +1,157 @@
+import { format } from "date-fns";
+import type { ConversationAgent, StoredConversation } from "@/lib/conversations";
+import { formatTranscriptTime, type TranscriptEntry, type TranscriptSource } from "@/lib/transcript";
+
+export type TranscriptExportFormat = "markdown" | "json" | "srt" | "vtt";
+
+export const TRANSCRIPT_EXPORT_FORMATS: Record<
+  TranscriptExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  markdown: { label: "Markdown", extension: "md", mimeType: "text/markdown" },
+  json: { label: "JSON", extension: "json", mimeType: "application/json" },
+  srt: { label: "SRT subtitles", extension: "srt", mimeType: "application/x-subrip" },
+  vtt: { label: "WebVTT subtitles", extension: "vtt", mimeType: "text/vtt" },
+};
+
+export interface TranscriptExport {
+  conversation: StoredConversation;
+  agents: ConversationAgent[];
+  entries: TranscriptEntry[];
+}
+
+// Cues are shown for about as long as it takes to read them, unless the next
+// turn starts sooner; only arrival times are stored, not how long anyone spoke.
+const READING_CHARACTERS_PER_SECOND = 15;
+const MIN_CUE_SECONDS = 1.5;
+const MAX_CUE_SECONDS = 8;
+
+const speakerName = (entry: TranscriptEntry, agentName: string) => {
+  const labels: Record<TranscriptSource, string> = {
+    user: "User",
+    ai: entry.agentName ?? agentName,
+    tool: "Tool",
+    system: "System",
+  };
+  return labels[entry.source];
+};
+
+export const formatTranscriptAsMarkdown = ({ conversation, entries }: TranscriptExport) => {
+  const lines = [
+    `# ${conversation.squad ? `Squad session with ${conversation.agentName}` : conversation.agentName}`,
+    "",
+    `_${format(conversation.startedAt, "PPpp")}${conversation.endedAt ? ` – ${format(conversation.endedAt, "p")}` : ""}_`,
+  ];
+
+  entries.forEach((entry) => {
+    lines.push("", `### ${speakerName(entry, conversation.agentName)} · ${formatTranscriptTime(entry.timestamp)}`);
+    lines.push("", entry.message);
+  });
+
+  return lines.join("\n");
+};
+
+export const formatTranscriptAsJson = ({ conversation, agents, entries }: TranscriptExport) =>
+  JSON.stringify(
+    {
+      conversation: {
+        id: conversation.id,
+        squad: conversation.squad,
+        startedAt: conversation.startedAt.toISOString(),
+        endedAt: conversation.endedAt?.toISOString() ?? null,
+        endReason: conversation.endReason,
+      },
+      agents,
+      messages: entries.map((entry) => ({
+        id: entry.id,
+        source: entry.source,
+        speaker: speakerName(entry, conversation.agentName),
+        message: entry.message,
+        timestamp: entry.timestamp.toISOString(),
+      })),
+    },
+    null,
+    2,
+  );
+
+interface SubtitleCue {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+// Only spoken turns become cues; tool calls and notices have no place on screen
+const toSubtitleCues = ({ conversation, entries }: TranscriptExport): SubtitleCue[] => {
+  const spoken = entries.filter(({ source }) => source === "user" || source === "ai");
+  const offset = (entry: TranscriptEntry) =>
+    Math.max(0, (entry.timestamp.getTime() - conversation.startedAt.getTime()) / 1000);
+
+  return spoken.map((entry, index) => {
+    const start = offset(entry);
+    const readingTime = Math.min(
+      MAX_CUE_SECONDS,
+      Math.max(MIN_CUE_SECONDS, entry.message.length / READING_CHARACTERS_PER_SECOND),
+    );
+    const next = spoken[index + 1];
+    return {
+      start,
+      end: next ? Math.max(start + 0.5, Math.min(offset(next), start + readingTime)) : start + readingTime,
+      speaker: speakerName(entry, conversation.agentName),
+      // A blank line ends a cue in both formats
+      text: entry.message.replace(/\n\s*\n/g, "\n").trim(),
+    };
+  });
+};
+
+const formatCueTime = (seconds: number, separator: "," | ".") => {
+  const milliseconds = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return (
+    `${pad(Math.floor(milliseconds / 3600000))}:${pad(Math.floor(milliseconds / 60000) % 60)}:` +
+    `${pad(Math.floor(milliseconds / 1000) % 60)}${separator}${pad(milliseconds % 1000, 3)}`
+  );
+};
+
+// SRT has no escaping, and players read any line with an arrow in it as a timing line
+const escapeSrtText = (text: string) => text.replace(/-{2,}>/g, "->");
+
+export const formatTranscriptAsSrt = (transcript: TranscriptExport) =>
+  toSubtitleCues(transcript)
+    .map(
+      ({ start, end, speaker, text }, index) =>
+        `${index + 1}\n${formatCueTime(start, ",")} --> ${formatCueTime(end, ",")}\n${escapeSrtText(`${speaker}: ${text}`)}\n`,
+    )
+    .join("\n");
+
+const escapeVttText = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export const formatTranscriptAsWebVtt = (transcript: TranscriptExport) =>
+  [
+    "WEBVTT\n",
+    ...toSubtitleCues(transcript).map(
+      ({ start, end, speaker, text }) =>
+        `${formatCueTime(start, ".")} --> ${formatCueTime(end, ".")}\n<v ${escapeVttText(speaker)}>${escapeVttText(text)}\n`,
+    ),
+  ].join("\n");
+
+const formatters: Record<TranscriptExportFormat, (transcript: TranscriptExport) => string> = {
+  markdown: formatTranscriptAsMarkdown,
+  json: formatTranscriptAsJson,
+  srt: formatTranscriptAsSrt,
+  vtt: formatTranscriptAsWebVtt,
+};
+
+export const downloadTranscript = (transcript: TranscriptExport, exportFormat: TranscriptExportFormat) => {
+  const { extension, mimeType } = TRANSCRIPT_EXPORT_FORMATS[exportFormat];
+  const blob = new Blob([formatters[exportFormat](transcript)], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const name = transcript.conversation.agentName.replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "") || "conversation";
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${name}-${format(transcript.conversation.startedAt, "yyyy-MM-dd-HHmm")}.${extension}`;
+  link.click();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
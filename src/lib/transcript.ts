@@ -0,0 +1,29 @@
+export type TranscriptSource = "user" | "ai" | "tool" | "system";
+
+export interface TranscriptEntry {
+  id: string;
+  source: TranscriptSource;
+  message: string;
+  timestamp: Date;
+  // Set when several agents share one transcript, as in a squad session
+  agentName?: string;
+}
+
+export const createTranscriptEntry = (
+  source: TranscriptSource,
+  message: string,
+  agentName?: string,
+): TranscriptEntry => ({
+  id: crypto.randomUUID(),
+  source,
+  message,
+  timestamp: new Date(),
+  agentName,
+});
+
+export const formatTranscriptTime = (timestamp: Date) =>
+  timestamp.toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
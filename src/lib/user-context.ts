@@ -0,0 +1,64 @@
+export interface UserProfile {
+  displayName: string;
+  company: string;
+  role: string;
+  industry: string;
+  email: string;
+}
+
+// Profile fields that can be handed to an agent, and the ElevenLabs dynamic
+// variable each one fills in (reference them in prompts as {{user_company}} etc.)
+export const PROFILE_FIELDS = {
+  display_name: {
+    label: "Display name",
+    variable: "user_display_name",
+    value: (profile: UserProfile) => profile.displayName,
+  },
+  company: {
+    label: "Company",
+    variable: "user_company",
+    value: (profile: UserProfile) => profile.company,
+  },
+  role: {
+    label: "Role",
+    variable: "user_role",
+    value: (profile: UserProfile) => profile.role,
+  },
+  industry: {
+    label: "Industry",
+    variable: "user_industry",
+    value: (profile: UserProfile) => profile.industry,
+  },
+  email_domain: {
+    label: "Email domain",
+    variable: "user_email_domain",
+    value: (profile: UserProfile) => profile.email.split("@")[1] ?? "",
+  },
+};
+
+export type ProfileFieldName = keyof typeof PROFILE_FIELDS;
+
+export const PROFILE_FIELD_NAMES = Object.keys(PROFILE_FIELDS) as [ProfileFieldName, ...ProfileFieldName[]];
+
+export const isProfileFieldName = (name: string): name is ProfileFieldName => name in PROFILE_FIELDS;
+
+export interface SharedProfileValue {
+  field: ProfileFieldName;
+  label: string;
+  variable: string;
+  value: string;
+}
+
+// Every field the admin enabled is sent, blank if the user hasn't filled it in:
+// ElevenLabs won't start a session whose prompt uses a variable it wasn't given
+export const getSharedProfileValues = (
+  profile: UserProfile | null,
+  fields: string[],
+): SharedProfileValue[] =>
+  fields.filter(isProfileFieldName).map((field) => {
+    const { label, variable, value } = PROFILE_FIELDS[field];
+    return { field, label, variable, value: profile ? value(profile).trim() : "" };
+  });
+
+export const toDynamicVariables = (values: SharedProfileValue[]) =>
+  Object.fromEntries(values.map(({ variable, value }) => [variable, value]));
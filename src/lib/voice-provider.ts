@@ -0,0 +1,83 @@
+import type { Database } from "@/integrations/supabase/types";
+import type { SessionOverrides } from "@/lib/agent-overrides";
+import type { ConnectionType } from "@/lib/connection";
+
+// The conversation manager talks to voice vendors only through this interface.
+// Each provider is a hook, because the ElevenLabs SDK is one, so every provider
+// is mounted once and the active session uses whichever its agent is set to.
+
+export type VoiceProviderId = Database["public"]["Enums"]["voice_provider"];
+
+export const VOICE_PROVIDERS: Record<VoiceProviderId, { label: string; description: string }> = {
+  elevenlabs: {
+    label: "ElevenLabs",
+    description: "Live conversations with an ElevenLabs Conversational AI agent.",
+  },
+  mock: {
+    label: "Local demo",
+    description: "Scripted replies played in the browser. Works offline, for demos and testing.",
+  },
+};
+
+export const VOICE_PROVIDER_IDS = Object.keys(VOICE_PROVIDERS) as [VoiceProviderId, ...VoiceProviderId[]];
+
+export type VoiceStatus = "connecting" | "connected" | "disconnecting" | "disconnected";
+
+export type VoiceDisconnectDetails =
+  | { reason: "user" }
+  | { reason: "agent"; message?: string }
+  | { reason: "error"; message: string };
+
+export interface VoiceMessage {
+  source: "user" | "ai";
+  message: string;
+}
+
+export type VoiceClientTools = Record<string, (parameters: unknown) => string | Promise<string>>;
+
+// Bound when a session starts, so callers keep anything these read in refs
+export interface VoiceProviderEvents {
+  onConnect: (details: { conversationId: string }) => void;
+  onDisconnect: (details: VoiceDisconnectDetails) => void;
+  onError: (message: string) => void;
+  onMessage: (message: VoiceMessage) => void;
+}
+
+// Applied live to whichever session is open
+export interface VoiceProviderControls {
+  micMuted?: boolean;
+  volume: number;
+  // Providers that play through the browser's own audio ignore these
+  inputDeviceId?: string;
+  outputDeviceId?: string;
+}
+
+export interface VoiceSessionOptions {
+  agentRowId: string;
+  // Transport to try; providers without a choice of transport ignore it
+  connectionType: ConnectionType;
+  textOnly: boolean;
+  clientTools: VoiceClientTools;
+  overrides?: SessionOverrides;
+  dynamicVariables: Record<string, string>;
+  inputDeviceId?: string;
+  outputDeviceId?: string;
+}
+
+export interface VoiceProvider {
+  status: VoiceStatus;
+  isSpeaking: boolean;
+  // Whether the latest agent reply can still be rated
+  canSendFeedback: boolean;
+  startSession: (options: VoiceSessionOptions) => Promise<void>;
+  endSession: () => Promise<void>;
+  sendUserMessage: (text: string) => void;
+  sendUserActivity: () => void;
+  // Background the agent takes into account without being interrupted
+  sendContextualUpdate: (text: string) => void;
+  sendFeedback: (like: boolean) => void;
+  getInputVolume: () => number;
+  getOutputVolume: () => number;
+  getInputByteFrequencyData: () => Uint8Array;
+  getOutputByteFrequencyData: () => Uint8Array;
+}
@@ -0,0 +1,213 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { ClipboardCopy, Loader2, Wifi } from "lucide-react";
+import Header from "@/components/Header";
+import MicLevelCheck from "@/components/MicLevelCheck";
+import SpeakerToneCheck from "@/components/SpeakerToneCheck";
+import LoopbackCheck from "@/components/LoopbackCheck";
+import DiagnosticStatusBadge from "@/components/DiagnosticStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import backgroundImage from "@/assets/kyndryl-background.png";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useConversationManager } from "@/hooks/use-conversation-manager";
+import {
+  DIAGNOSTIC_CHECK_LABELS,
+  checkSupabaseSession,
+  checkWebRtc,
+  checkWebSocket,
+  formatDiagnosticsReport,
+  type DiagnosticCheckId,
+  type DiagnosticResult,
+} from "@/lib/diagnostics";
+import type { User } from "@supabase/supabase-js";
+
+const NETWORK_CHECKS: DiagnosticCheckId[] = ["supabase", "websocket", "webrtc"];
+
+const Diagnostics = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [results, setResults] = useState<Partial<Record<DiagnosticCheckId, DiagnosticResult>>>({});
+  const [runningCheck, setRunningCheck] = useState<DiagnosticCheckId | null>(null);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { audioPreferences } = useConversationManager();
+
+  // Check authentication
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      setLoading(false);
+      if (!session) {
+        navigate("/auth");
+      }
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      setUser(session?.user ?? null);
+      if (!session) {
+        navigate("/auth");
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  const setResult = (id: DiagnosticCheckId) => (result: DiagnosticResult) =>
+    setResults((current) => ({ ...current, [id]: result }));
+
+  // Connection checks need real session credentials, so they borrow the first agent
+  const runNetworkChecks = async () => {
+    let check: DiagnosticCheckId = "supabase";
+    setRunningCheck(check);
+    try {
+      setResult(check)(await checkSupabaseSession());
+
+      const { data: agents, error } = await supabase
+        .from('agents')
+        .select('id')
+        .eq('voice_provider', 'elevenlabs')
+        .order('created_at', { ascending: true })
+        .limit(1);
+
+      const agentRowId = agents?.[0]?.id;
+      if (error || !agentRowId) {
+        const skipped: DiagnosticResult = {
+          status: "warn",
+          detail: error ? `Could not load agents: ${error.message}` : "No ElevenLabs agents are configured, so there is nothing to connect to",
+        };
+        setResult("websocket")(skipped);
+        setResult("webrtc")(skipped);
+        return;
+      }
+
+      check = "websocket";
+      setRunningCheck(check);
+      setResult(check)(await checkWebSocket(agentRowId));
+      check = "webrtc";
+      setRunningCheck(check);
+      setResult(check)(await checkWebRtc(agentRowId));
+    } catch (error) {
+      setResult(check)({ status: "fail", detail: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setRunningCheck(null);
+    }
+  };
+
+  const copyReport = async () => {
+    try {
+      await navigator.clipboard.writeText(formatDiagnosticsReport(results));
+      toast({
+        title: "Report Copied",
+        description: "Paste it into your message to support",
+      });
+    } catch {
+      toast({
+        title: "Copy Failed",
+        description: "Your browser blocked clipboard access",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-cover bg-center bg-no-repeat bg-fixed" style={{ backgroundImage: `url(${backgroundImage})` }}>
+      <Header userEmail={user?.email} />
+
+      <main className="container mx-auto px-4 pt-24 pb-12">
+        <div className="mb-8 space-y-2">
+          <h1 className="text-4xl font-bold text-white">Diagnostics</h1>
+          <p className="text-lg text-muted-foreground">
+            Check your audio and network before a workshop
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_380px]">
+          <div className="space-y-6">
+            <MicLevelCheck
+              inputDeviceId={audioPreferences.inputDeviceId}
+              result={results.microphone}
+              onResult={setResult("microphone")}
+            />
+            <SpeakerToneCheck
+              outputDeviceId={audioPreferences.outputDeviceId}
+              result={results.speaker}
+              onResult={setResult("speaker")}
+            />
+            <LoopbackCheck
+              inputDeviceId={audioPreferences.inputDeviceId}
+              outputDeviceId={audioPreferences.outputDeviceId}
+              result={results.loopback}
+              onResult={setResult("loopback")}
+            />
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Network</CardTitle>
+                <CardDescription>
+                  Confirms you are signed in and that voice connections can get through your network.
+                  The WebSocket check opens a short conversation with an agent and hangs up straight away.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ul className="space-y-3">
+                  {NETWORK_CHECKS.map((id) => (
+                    <li key={id} className="space-y-1">
+                      <div className="flex items-center justify-between gap-4">
+                        <span className="text-sm font-medium">{DIAGNOSTIC_CHECK_LABELS[id]}</span>
+                        {runningCheck === id ? (
+                          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                        ) : (
+                          <DiagnosticStatusBadge status={results[id]?.status} />
+                        )}
+                      </div>
+                      {results[id] && (
+                        <p className="text-sm text-muted-foreground">{results[id].detail}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                <Button onClick={runNetworkChecks} disabled={runningCheck !== null} variant="outline">
+                  <Wifi className="mr-2 h-4 w-4" />
+                  {runningCheck ? "Checking..." : "Run Network Checks"}
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="h-fit lg:sticky lg:top-24">
+            <CardHeader>
+              <CardTitle className="text-lg">Report</CardTitle>
+              <CardDescription>Share this with support if something isn't working.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ul className="space-y-2">
+                {(Object.keys(DIAGNOSTIC_CHECK_LABELS) as DiagnosticCheckId[]).map((id) => (
+                  <li key={id} className="flex items-center justify-between gap-4 text-sm">
+                    {DIAGNOSTIC_CHECK_LABELS[id]}
+                    <DiagnosticStatusBadge status={results[id]?.status} />
+                  </li>
+                ))}
+              </ul>
+              <Button onClick={copyReport} className="w-full">
+                <ClipboardCopy className="mr-2 h-4 w-4" />
+                Copy Report
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Diagnostics;
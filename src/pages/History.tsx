@@ -0,0 +1,261 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, startOfDay, endOfDay } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { CalendarIcon, Search, X } from "lucide-react";
+import Header from "@/components/Header";
+import ConversationDetail from "@/components/ConversationDetail";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import backgroundImage from "@/assets/kyndryl-background.png";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { fetchConversations, type StoredConversation } from "@/lib/conversations";
+import type { User } from "@supabase/supabase-js";
+
+const ALL_AGENTS = "all";
+
+const History = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [agents, setAgents] = useState<{ id: string; name: string }[]>([]);
+  const [conversations, setConversations] = useState<StoredConversation[]>([]);
+  const [selectedConversation, setSelectedConversation] = useState<StoredConversation | null>(null);
+  const [agentFilter, setAgentFilter] = useState(ALL_AGENTS);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  // Check authentication
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      setLoading(false);
+      if (!session) {
+        navigate("/auth");
+      }
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      setUser(session?.user ?? null);
+      if (!session) {
+        navigate("/auth");
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  // Load agents for the filter dropdown
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+
+    supabase
+      .from('agents')
+      .select('id, name')
+      .order('created_at', { ascending: true })
+      .then(({ data, error }) => {
+        if (error) {
+          toast({
+            title: "Error loading agents",
+            description: error.message,
+            variant: "destructive",
+          });
+          return;
+        }
+        setAgents(data);
+      });
+  }, [user, toast]);
+
+  // Reload conversations whenever the filters change
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+
+    let cancelled = false;
+    fetchConversations(user.id, {
+      agentId: agentFilter === ALL_AGENTS ? undefined : agentFilter,
+      from: dateRange?.from ? startOfDay(dateRange.from) : undefined,
+      to: dateRange?.from ? endOfDay(dateRange.to ?? dateRange.from) : undefined,
+      search,
+    })
+      .then((data) => {
+        if (!cancelled) {
+          setConversations(data);
+        }
+      })
+      .catch((error) => {
+        toast({
+          title: "Error loading conversations",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, agentFilter, dateRange, search, toast]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput);
+  };
+
+  const clearFilters = () => {
+    setAgentFilter(ALL_AGENTS);
+    setDateRange(undefined);
+    setSearchInput("");
+    setSearch("");
+  };
+
+  const hasFilters = agentFilter !== ALL_AGENTS || dateRange !== undefined || search !== "";
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-cover bg-center bg-no-repeat bg-fixed" style={{ backgroundImage: `url(${backgroundImage})` }}>
+      <Header userEmail={user?.email} />
+
+      <main className="container mx-auto px-4 pt-24 pb-12">
+        <div className="mb-8 space-y-2">
+          <h1 className="text-4xl font-bold text-white">Conversation History</h1>
+          <p className="text-lg text-muted-foreground">
+            Revisit what your agents said in past sessions
+          </p>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3 mb-8">
+          <form onSubmit={handleSearch} className="flex flex-1 gap-2">
+            <Input
+              placeholder="Search transcripts..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="bg-white text-gray-900 placeholder:text-gray-500"
+              maxLength={200}
+            />
+            <Button type="submit" size="icon" aria-label="Search">
+              <Search className="h-4 w-4" />
+            </Button>
+          </form>
+
+          <Select value={agentFilter} onValueChange={setAgentFilter}>
+            <SelectTrigger className="md:w-56 bg-white text-gray-900">
+              <SelectValue placeholder="All agents" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_AGENTS}>All agents</SelectItem>
+              {agents.map((agent) => (
+                <SelectItem key={agent.id} value={agent.id}>
+                  {agent.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="md:w-64 justify-start bg-white text-gray-900">
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {dateRange?.from ? (
+                  dateRange.to ? (
+                    `${format(dateRange.from, "LLL d, y")} – ${format(dateRange.to, "LLL d, y")}`
+                  ) : (
+                    format(dateRange.from, "LLL d, y")
+                  )
+                ) : (
+                  "Any date"
+                )}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="range"
+                selected={dateRange}
+                onSelect={setDateRange}
+                numberOfMonths={2}
+                disabled={{ after: new Date() }}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+
+          {hasFilters && (
+            <Button onClick={clearFilters} variant="ghost" className="text-white hover:bg-white/10">
+              <X className="mr-2 h-4 w-4" />
+              Clear
+            </Button>
+          )}
+        </div>
+
+        <div className="grid gap-8 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+          <div className="space-y-2">
+            {conversations.length === 0 ? (
+              <p className="text-center py-16 text-xl text-muted-foreground">
+                {hasFilters ? "No conversations match your filters" : "No conversations yet"}
+              </p>
+            ) : (
+              conversations.map((conversation) => (
+                <button
+                  key={conversation.id}
+                  onClick={() => setSelectedConversation(conversation)}
+                  className={`w-full text-left p-4 rounded-xl border transition-colors ${
+                    selectedConversation?.id === conversation.id
+                      ? "bg-white text-gray-900 border-white"
+                      : "bg-card/50 backdrop-blur-sm border-border text-white hover:bg-card/70"
+                  }`}
+                >
+                  <p className="font-semibold">
+                    {conversation.squad ? `Squad session with ${conversation.agentName}` : conversation.agentName}
+                  </p>
+                  <p className="text-sm opacity-70">{format(conversation.startedAt, "PPp")}</p>
+                </button>
+              ))
+            )}
+          </div>
+
+          <div className="bg-card/50 backdrop-blur-sm border border-border rounded-2xl p-8 shadow-card">
+            {selectedConversation ? (
+              <ConversationDetail
+                conversation={selectedConversation}
+                onSummaryChange={(summary) => {
+                  const updated = { ...selectedConversation, summary };
+                  setSelectedConversation(updated);
+                  setConversations((current) =>
+                    current.map((conversation) => (conversation.id === updated.id ? updated : conversation))
+                  );
+                }}
+              />
+            ) : (
+              <p className="text-center py-16 text-muted-foreground">
+                Select a conversation to read its transcript
+              </p>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default History;
@@ -1,8 +1,14 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import Header from "@/components/Header";
 import VoiceAgent from "@/components/VoiceAgent";
+import SquadSession from "@/components/SquadSession";
 import AgentConfig, { Agent } from "@/components/AgentConfig";
+import { buildSessionOverrides } from "@/lib/agent-overrides";
+import { getSharedProfileValues } from "@/lib/user-context";
+import { useUserProfile } from "@/hooks/use-user-profile";
+import { useConversationManager } from "@/hooks/use-conversation-manager";
+import type { AgentSessionConfig } from "@/contexts/conversation-context";
 import { Button } from "@/components/ui/button";
 import backgroundImage from "@/assets/kyndryl-background.png";
 import { supabase } from "@/integrations/supabase/client";
@@ -16,6 +22,8 @@ const Index = () => {
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { profile, reloadProfile } = useUserProfile();
+  const { setAgentDirectory } = useConversationManager();
 
   // Check authentication
   useEffect(() => {
@@ -45,31 +53,67 @@ const Index = () => {
   }, [user]);
 
   const loadAgents = async () => {
-    const { data, error } = await supabase
-      .from('agents')
-      .select('*')
-      .order('created_at', { ascending: true });
+    // Provider agent ids and prompt notes are admin-only; everyone else gets no rows back
+    const [{ data, error }, { data: privateSettings, error: privateError }] = await Promise.all([
+      supabase
+        .from('agents')
+        .select('id, name, voice_provider, bio, llm, client_tools, first_message, language, voice_id, shared_profile_fields, health_status, health_detail, health_checked_at')
+        .order('created_at', { ascending: true }),
+      supabase.rpc('get_agent_private_settings'),
+    ]);
 
-    if (error) {
+    if (error || privateError) {
       toast({
         title: "Error loading agents",
-        description: error.message,
+        description: (error ?? privateError).message,
         variant: "destructive",
       });
       return;
     }
 
     if (data) {
+      const settingsById = new Map((privateSettings ?? []).map((settings) => [settings.id, settings]));
       setAgents(data.map(agent => ({
         id: agent.id,
         name: agent.name,
-        agentId: agent.agent_id,
+        agentId: settingsById.get(agent.id)?.agent_id ?? "",
+        voiceProvider: agent.voice_provider,
         bio: agent.bio || "",
         llm: agent.llm || "",
+        clientTools: agent.client_tools,
+        promptOverride: settingsById.get(agent.id)?.prompt_override || "",
+        firstMessage: agent.first_message || "",
+        language: agent.language || "",
+        voiceId: agent.voice_id || "",
+        sharedProfileFields: agent.shared_profile_fields,
+        health: {
+          status: agent.health_status,
+          detail: agent.health_detail,
+          checkedAt: agent.health_checked_at ? new Date(agent.health_checked_at) : null,
+        },
       })));
     }
   };
 
+  // In the same order as agents, so each card can use its agent's entry
+  const sessionConfigs = useMemo<AgentSessionConfig[]>(
+    () =>
+      agents.map((agent) => ({
+        agentRowId: agent.id,
+        agentName: agent.name,
+        voiceProvider: agent.voiceProvider,
+        clientTools: agent.clientTools,
+        sessionOverrides: buildSessionOverrides(agent),
+        sharedProfile: getSharedProfileValues(profile, agent.sharedProfileFields),
+      })),
+    [agents, profile],
+  );
+
+  // Lets the switch_agent tool hand over to any configured agent
+  useEffect(() => {
+    setAgentDirectory(sessionConfigs);
+  }, [sessionConfigs, setAgentDirectory]);
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -80,7 +124,11 @@ const Index = () => {
 
   return (
     <div className="min-h-screen bg-cover bg-center bg-no-repeat" style={{ backgroundImage: `url(${backgroundImage})` }}>
-      <Header onConfigClick={() => setShowConfig(true)} userEmail={user?.email} />
+      <Header
+        onConfigClick={() => setShowConfig(true)}
+        userEmail={user?.email}
+        onProfileSaved={reloadProfile}
+      />
 
       <main className="container mx-auto px-4 pt-24 pb-12">
         <div className="text-center mb-16 space-y-4">
@@ -92,7 +140,9 @@ const Index = () => {
           </p>
         </div>
 
-        <div className="max-w-7xl mx-auto">
+        <div className="max-w-7xl mx-auto space-y-8">
+          {agents.length > 1 && <SquadSession agents={sessionConfigs} />}
+
           {agents.length > 0 ? (
             <div className={`grid gap-8 ${
               agents.length === 1 ? 'max-w-2xl mx-auto' :
@@ -100,13 +150,18 @@ const Index = () => {
               agents.length === 3 ? 'md:grid-cols-3' :
               'md:grid-cols-2 lg:grid-cols-4'
             }`}>
-              {agents.map((agent) => (
+              {agents.map((agent, index) => (
                 <div key={agent.id} className="bg-card/50 backdrop-blur-sm border border-border rounded-2xl p-8 shadow-card">
                   <VoiceAgent
-                    agentId={agent.agentId}
+                    agentRowId={agent.id}
                     agentName={agent.name}
                     agentBio={agent.bio}
                     agentLlm={agent.llm}
+                    voiceProvider={agent.voiceProvider}
+                    health={agent.health}
+                    clientTools={agent.clientTools}
+                    sessionOverrides={sessionConfigs[index].sessionOverrides}
+                    sharedProfile={sessionConfigs[index].sharedProfile}
                   />
                 </div>
               ))}
@@ -0,0 +1,143 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Set ELEVENLABS_API_URL to the elevenlabs-stub function to run without an ElevenLabs account
+const ELEVENLABS_API_URL = Deno.env.get('ELEVENLABS_API_URL') ?? 'https://api.elevenlabs.io';
+
+type HealthStatus = 'healthy' | 'not_found' | 'error';
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const checkAgent = async (
+  agentId: string,
+  apiKey: string,
+): Promise<{ status: HealthStatus; detail: string | null }> => {
+  try {
+    const response = await fetch(
+      `${ELEVENLABS_API_URL}/v1/convai/agents/${encodeURIComponent(agentId)}`,
+      { headers: { 'xi-api-key': apiKey } }
+    );
+
+    if (response.ok) {
+      return { status: 'healthy', detail: null };
+    }
+
+    console.error('Agent health check failed:', agentId, response.status, await response.text());
+    if ([400, 404, 422].includes(response.status)) {
+      return { status: 'not_found', detail: 'The voice provider has no agent with this ID' };
+    }
+    if ([401, 403].includes(response.status)) {
+      return { status: 'error', detail: 'The voice provider rejected the API key' };
+    }
+    return { status: 'error', detail: `The voice provider returned an error (${response.status})` };
+  } catch (error) {
+    return {
+      status: 'error',
+      detail: `Could not reach the voice provider: ${error instanceof Error ? error.message : 'unknown error'}`,
+    };
+  }
+};
+
+// Checks agents against the voice provider and stores the result on each row.
+// Admins call it for one agent right after saving it; the scheduled job calls
+// it with HEALTH_CHECK_SECRET and no agentRowId to check every agent.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { agentRowId } = await req.json().catch(() => ({}));
+    const healthCheckSecret = Deno.env.get('HEALTH_CHECK_SECRET');
+    const isScheduled = !!healthCheckSecret && req.headers.get('x-health-check-secret') === healthCheckSecret;
+
+    if (!isScheduled) {
+      const authHeader = req.headers.get('Authorization');
+      if (!authHeader) {
+        return jsonResponse({ error: 'Missing authorization header' }, 401);
+      }
+
+      const caller = createClient(
+        Deno.env.get('SUPABASE_URL')!,
+        Deno.env.get('SUPABASE_ANON_KEY')!,
+        { global: { headers: { Authorization: authHeader } } }
+      );
+
+      const { data: { user }, error: userError } = await caller.auth.getUser();
+      if (userError || !user) {
+        return jsonResponse({ error: 'Invalid or expired session' }, 401);
+      }
+
+      const { data: isAdmin, error: roleError } = await caller.rpc('has_role', {
+        _user_id: user.id,
+        _role: 'admin',
+      });
+      if (roleError) {
+        throw roleError;
+      }
+      if (!isAdmin) {
+        return jsonResponse({ error: 'Only admins can check agents' }, 403);
+      }
+      if (typeof agentRowId !== 'string') {
+        return jsonResponse({ error: 'agentRowId is required' }, 400);
+      }
+    }
+
+    const apiKey = Deno.env.get('ELEVENLABS_API_KEY');
+    if (!apiKey) {
+      throw new Error('ELEVENLABS_API_KEY is not configured');
+    }
+
+    // Results are written with the service role so the status can't be set by hand from the browser
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    let query = supabase.from('agents').select('id, agent_id, voice_provider');
+    if (typeof agentRowId === 'string') {
+      query = query.eq('id', agentRowId);
+    }
+
+    const { data: agents, error: agentsError } = await query;
+    if (agentsError) {
+      throw agentsError;
+    }
+    if (typeof agentRowId === 'string' && agents.length === 0) {
+      return jsonResponse({ error: 'Agent not found' }, 404);
+    }
+
+    const results = [];
+    for (const agent of agents) {
+      // The local demo provider runs in the browser, so there is nothing to reach
+      const { status, detail } = agent.voice_provider === 'mock'
+        ? { status: 'healthy' as const, detail: null }
+        : await checkAgent(agent.agent_id, apiKey);
+      const checkedAt = new Date().toISOString();
+
+      const { error: updateError } = await supabase
+        .from('agents')
+        .update({ health_status: status, health_detail: detail, health_checked_at: checkedAt })
+        .eq('id', agent.id);
+
+      if (updateError) {
+        throw updateError;
+      }
+      results.push({ agentRowId: agent.id, status, detail, checkedAt });
+    }
+
+    return jsonResponse({ results });
+  } catch (error) {
+    console.error('Error checking agent health:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,106 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Set ELEVENLABS_API_URL to the elevenlabs-stub function to run without an ElevenLabs account
+const ELEVENLABS_API_URL = Deno.env.get('ELEVENLABS_API_URL') ?? 'https://api.elevenlabs.io';
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    // Query as the caller so the agents RLS policies decide what they can see
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ error: 'Invalid or expired session' }, 401);
+    }
+
+    const { agentRowId, connectionType } = await req.json();
+    if (typeof agentRowId !== 'string' || !['webrtc', 'websocket'].includes(connectionType)) {
+      return jsonResponse({ error: 'agentRowId and a connectionType of webrtc or websocket are required' }, 400);
+    }
+
+    const { data: visibleAgent, error: visibleError } = await supabase
+      .from('agents')
+      .select('id')
+      .eq('id', agentRowId)
+      .maybeSingle();
+
+    if (visibleError) {
+      throw visibleError;
+    }
+    if (!visibleAgent) {
+      return jsonResponse({ error: 'Agent not found' }, 404);
+    }
+
+    // The provider agent id is admin-only, so it is read with the service role
+    const service = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+    const { data: agent, error: agentError } = await service
+      .from('agents')
+      .select('agent_id')
+      .eq('id', agentRowId)
+      .single();
+
+    if (agentError) {
+      throw agentError;
+    }
+
+    const apiKey = Deno.env.get('ELEVENLABS_API_KEY');
+    if (!apiKey) {
+      throw new Error('ELEVENLABS_API_KEY is not configured');
+    }
+
+    // WebRTC sessions authenticate with a conversation token, WebSocket sessions with a signed URL
+    const endpoint = connectionType === 'webrtc'
+      ? '/v1/convai/conversation/token'
+      : '/v1/convai/conversation/get-signed-url';
+
+    const response = await fetch(
+      `${ELEVENLABS_API_URL}${endpoint}?agent_id=${encodeURIComponent(agent.agent_id)}`,
+      { headers: { 'xi-api-key': apiKey } }
+    );
+
+    if (!response.ok) {
+      console.error('ElevenLabs request failed:', response.status, await response.text());
+      return jsonResponse({ error: `Voice provider rejected the request (${response.status})` }, 502);
+    }
+
+    // The client tags the session with this user id, which
+    // store-conversation-recordings checks before copying any audio
+    const data = await response.json();
+    return jsonResponse(
+      connectionType === 'webrtc'
+        ? { conversationToken: data.token, userId: user.id }
+        : { signedUrl: data.signed_url, userId: user.id }
+    );
+  } catch (error) {
+    console.error('Error creating ElevenLabs session:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
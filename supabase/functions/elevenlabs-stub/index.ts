@@ -0,0 +1,111 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+// Minimal stand-in for the ElevenLabs endpoints used by elevenlabs-session,
+// agent-health-check and store-conversation-recordings. It is for local use
+// only and is left out of config.toml: serve it with
+// `supabase functions serve elevenlabs-stub --no-verify-jwt`, set
+// ELEVENLABS_STUB_API_KEY to the same value as ELEVENLABS_API_KEY and point
+// ELEVENLABS_API_URL at http://localhost:54321/functions/v1/elevenlabs-stub
+// to exercise the session flow without an ElevenLabs account.
+
+const STUB_API_KEY = Deno.env.get('ELEVENLABS_STUB_API_KEY');
+if (!STUB_API_KEY) {
+  throw new Error('ELEVENLABS_STUB_API_KEY is not configured');
+}
+const STUB_SOCKET_URL = Deno.env.get('ELEVENLABS_STUB_SOCKET_URL') ?? 'ws://localhost:8787/v1/convai/conversation';
+
+// One second of silence, so stored recordings play without real audio
+const silentWav = () => {
+  const sampleRate = 8000;
+  const dataSize = sampleRate;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeText = (offset: number, text: string) =>
+    [...text].forEach((char, index) => view.setUint8(offset + index, char.charCodeAt(0)));
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate, true);
+  view.setUint16(32, 1, true);
+  view.setUint16(34, 8, true);
+  writeText(36, 'data');
+  view.setUint32(40, dataSize, true);
+  // 8-bit PCM is unsigned, so silence sits at the midpoint
+  for (let offset = 44; offset < 44 + dataSize; offset++) {
+    view.setUint8(offset, 128);
+  }
+  return view.buffer;
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+serve((req) => {
+  if (req.headers.get('xi-api-key') !== STUB_API_KEY) {
+    return jsonResponse({ detail: 'Invalid API key' }, 401);
+  }
+
+  const url = new URL(req.url);
+
+  const agentLookup = url.pathname.match(/\/v1\/convai\/agents\/([^/]+)$/);
+  if (agentLookup) {
+    const lookupId = decodeURIComponent(agentLookup[1]);
+    return lookupId.startsWith('missing')
+      ? jsonResponse({ detail: 'Agent not found' }, 404)
+      : jsonResponse({ agent_id: lookupId, name: `Stub agent ${lookupId}` });
+  }
+
+  const audioLookup = url.pathname.match(/\/v1\/convai\/conversations\/([^/]+)\/audio$/);
+  if (audioLookup) {
+    return decodeURIComponent(audioLookup[1]).startsWith('missing')
+      ? jsonResponse({ detail: 'Conversation not found' }, 404)
+      : new Response(silentWav(), { headers: { 'Content-Type': 'audio/wav' } });
+  }
+
+  // Stub conversation ids read "<agent_id>.<user_id>.<anything>", so the
+  // recording ownership check has something to compare against
+  const conversationLookup = url.pathname.match(/\/v1\/convai\/conversations\/([^/]+)$/);
+  if (conversationLookup) {
+    const conversationId = decodeURIComponent(conversationLookup[1]);
+    if (conversationId.startsWith('missing')) {
+      return jsonResponse({ detail: 'Conversation not found' }, 404);
+    }
+    const [ownerAgentId = null, ownerUserId = null] = conversationId.split('.');
+    return jsonResponse({
+      conversation_id: conversationId,
+      agent_id: ownerAgentId,
+      user_id: ownerUserId,
+      status: 'done',
+    });
+  }
+
+  const agentId = url.searchParams.get('agent_id');
+  if (!agentId) {
+    return jsonResponse({ detail: 'agent_id is required' }, 422);
+  }
+  if (agentId.startsWith('missing')) {
+    return jsonResponse({ detail: 'Agent not found' }, 404);
+  }
+
+  const issuedAt = Date.now();
+
+  if (url.pathname.endsWith('/v1/convai/conversation/token')) {
+    return jsonResponse({ token: `stub-token-${agentId}-${issuedAt}` });
+  }
+
+  if (url.pathname.endsWith('/v1/convai/conversation/get-signed-url')) {
+    return jsonResponse({
+      signed_url: `${STUB_SOCKET_URL}?agent_id=${encodeURIComponent(agentId)}&conversation_signature=stub-${issuedAt}`,
+    });
+  }
+
+  return jsonResponse({ detail: 'Not found' }, 404);
+});
@@ -0,0 +1,174 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Set ELEVENLABS_API_URL to the elevenlabs-stub function to run without an ElevenLabs account
+const ELEVENLABS_API_URL = Deno.env.get('ELEVENLABS_API_URL') ?? 'https://api.elevenlabs.io';
+
+const RECORDINGS_BUCKET = 'conversation-recordings';
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Copies the audio of each pending recording from ElevenLabs into storage.
+// ElevenLabs needs a little while after a call ends before its audio is ready,
+// so recordings it does not have yet stay pending and the caller retries.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    // Query as the caller so only recordings of their own conversations are found
+    const caller = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: userError } = await caller.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ error: 'Invalid or expired session' }, 401);
+    }
+
+    const { conversationId } = await req.json();
+    if (typeof conversationId !== 'string') {
+      return jsonResponse({ error: 'conversationId is required' }, 400);
+    }
+
+    const { data: recordings, error: recordingsError } = await caller
+      .from('conversation_recordings')
+      .select('id, agent_id, elevenlabs_conversation_id, conversations(user_id)')
+      .eq('conversation_id', conversationId)
+      .eq('status', 'pending');
+
+    if (recordingsError) {
+      throw recordingsError;
+    }
+
+    const apiKey = Deno.env.get('ELEVENLABS_API_KEY');
+    if (!apiKey) {
+      throw new Error('ELEVENLABS_API_KEY is not configured');
+    }
+
+    // Uploads and status changes use the service role, which users don't have
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const markUnavailable = async (recordingId: string, detail: string) => {
+      const { error: updateError } = await supabase
+        .from('conversation_recordings')
+        .update({ status: 'unavailable', detail, updated_at: new Date().toISOString() })
+        .eq('id', recordingId);
+      if (updateError) {
+        throw updateError;
+      }
+    };
+
+    // Provider agent ids are admin-only, so they are read with the service role
+    const agentRowIds = [...new Set(recordings.map(({ agent_id }) => agent_id).filter(Boolean))];
+    const { data: agents, error: agentsError } = await supabase
+      .from('agents')
+      .select('id, agent_id')
+      .in('id', agentRowIds);
+    if (agentsError) {
+      throw agentsError;
+    }
+    const providerAgentIds = new Map(agents.map(({ id, agent_id }) => [id, agent_id]));
+
+    let pending = 0;
+    for (const recording of recordings) {
+      // Users write the provider conversation id themselves, so it is only
+      // trusted once ElevenLabs confirms the conversation was with this agent
+      // and started by the conversation's owner. Otherwise anyone could copy
+      // another user's audio into their own history.
+      const detailsResponse = await fetch(
+        `${ELEVENLABS_API_URL}/v1/convai/conversations/${encodeURIComponent(recording.elevenlabs_conversation_id)}`,
+        { headers: { 'xi-api-key': apiKey } }
+      );
+
+      if (!detailsResponse.ok) {
+        console.error('Conversation lookup failed:', recording.elevenlabs_conversation_id, detailsResponse.status, await detailsResponse.text());
+        if (detailsResponse.status === 404) {
+          pending += 1;
+        } else {
+          await markUnavailable(recording.id, `The voice provider returned an error (${detailsResponse.status})`);
+        }
+        continue;
+      }
+
+      const details = await detailsResponse.json();
+      const expectedAgentId = recording.agent_id ? providerAgentIds.get(recording.agent_id) : undefined;
+      if (
+        !expectedAgentId ||
+        details.agent_id !== expectedAgentId ||
+        details.user_id !== recording.conversations?.user_id
+      ) {
+        await markUnavailable(recording.id, 'The voice provider conversation does not belong to this session');
+        continue;
+      }
+
+      const response = await fetch(
+        `${ELEVENLABS_API_URL}/v1/convai/conversations/${encodeURIComponent(recording.elevenlabs_conversation_id)}/audio`,
+        { headers: { 'xi-api-key': apiKey } }
+      );
+
+      if (!response.ok) {
+        console.error('Recording download failed:', recording.elevenlabs_conversation_id, response.status, await response.text());
+        if (response.status === 404) {
+          pending += 1;
+        } else {
+          await markUnavailable(recording.id, `The voice provider returned an error (${response.status})`);
+        }
+        continue;
+      }
+
+      const contentType = response.headers.get('Content-Type')?.split(';')[0] ?? 'audio/mpeg';
+      const storagePath = `${conversationId}/${recording.id}.${FILE_EXTENSIONS[contentType] ?? 'mp3'}`;
+      const { error: uploadError } = await supabase.storage
+        .from(RECORDINGS_BUCKET)
+        .upload(storagePath, await response.arrayBuffer(), { contentType, upsert: true });
+      if (uploadError) {
+        throw uploadError;
+      }
+
+      const { error: updateError } = await supabase
+        .from('conversation_recordings')
+        .update({
+          status: 'stored',
+          storage_path: storagePath,
+          detail: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', recording.id);
+      if (updateError) {
+        throw updateError;
+      }
+    }
+
+    return jsonResponse({ pending });
+  } catch (error) {
+    console.error('Error storing conversation recordings:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,86 @@
+-- Create enums describing how a conversation ended and who sent a message
+CREATE TYPE public.conversation_end_reason AS ENUM ('user', 'agent', 'error');
+CREATE TYPE public.conversation_message_source AS ENUM ('user', 'ai');
+
+-- Create conversations table to store voice agent sessions
+CREATE TABLE public.conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  agent_id UUID REFERENCES public.agents(id) ON DELETE SET NULL,
+  elevenlabs_conversation_id TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  end_reason public.conversation_end_reason,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX conversations_user_id_started_at_idx
+ON public.conversations (user_id, started_at DESC);
+
+-- Create conversation_messages table to store each transcript turn
+CREATE TABLE public.conversation_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  source public.conversation_message_source NOT NULL,
+  message TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX conversation_messages_conversation_id_created_at_idx
+ON public.conversation_messages (conversation_id, created_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for conversations table
+CREATE POLICY "Users can view their own conversations"
+ON public.conversations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all conversations"
+ON public.conversations
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can create their own conversations"
+ON public.conversations
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own conversations"
+ON public.conversations
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- RLS policies for conversation_messages table
+CREATE POLICY "Users can view messages of their own conversations"
+ON public.conversation_messages
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.conversations
+    WHERE conversations.id = conversation_messages.conversation_id
+      AND conversations.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view all conversation messages"
+ON public.conversation_messages
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can add messages to their own conversations"
+ON public.conversation_messages
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1
+    FROM public.conversations
+    WHERE conversations.id = conversation_messages.conversation_id
+      AND conversations.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,6 @@
+-- Store which browser-side client tools each agent may call
+ALTER TABLE public.agents
+ADD COLUMN client_tools TEXT[] NOT NULL DEFAULT '{}';
+
+-- Allow client tool calls to be recorded as transcript messages
+ALTER TYPE public.conversation_message_source ADD VALUE 'tool';
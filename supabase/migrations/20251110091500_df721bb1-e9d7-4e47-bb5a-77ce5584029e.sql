@@ -0,0 +1,6 @@
+-- Store per-agent session overrides applied when a conversation starts
+ALTER TABLE public.agents
+ADD COLUMN prompt_override TEXT,
+ADD COLUMN first_message TEXT,
+ADD COLUMN language TEXT,
+ADD COLUMN voice_id TEXT;
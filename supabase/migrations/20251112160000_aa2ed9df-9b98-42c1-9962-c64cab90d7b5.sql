@@ -0,0 +1,35 @@
+-- Create profiles table holding the user details agents can be given as context
+CREATE TABLE public.profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  display_name TEXT,
+  company TEXT,
+  job_role TEXT,
+  industry TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for profiles table
+CREATE POLICY "Users can view their own profile"
+ON public.profiles
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own profile"
+ON public.profiles
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own profile"
+ON public.profiles
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Store which profile fields each agent receives as dynamic variables
+ALTER TABLE public.agents
+ADD COLUMN shared_profile_fields TEXT[] NOT NULL DEFAULT '{}';
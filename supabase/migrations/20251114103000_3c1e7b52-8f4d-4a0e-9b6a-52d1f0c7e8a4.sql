@@ -0,0 +1,10 @@
+-- Mark conversations where the user moved between several agents in one thread
+ALTER TABLE public.conversations
+ADD COLUMN squad BOOLEAN NOT NULL DEFAULT false;
+
+-- Store which agent was on the call when each message was sent
+ALTER TABLE public.conversation_messages
+ADD COLUMN agent_id UUID REFERENCES public.agents(id) ON DELETE SET NULL;
+
+-- Allow handoffs between agents to be recorded as transcript messages
+ALTER TYPE public.conversation_message_source ADD VALUE 'system';
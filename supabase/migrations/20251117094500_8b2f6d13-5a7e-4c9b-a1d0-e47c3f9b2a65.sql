@@ -0,0 +1,4 @@
+-- Record why the app ended a conversation on the user's behalf
+ALTER TYPE public.conversation_end_reason ADD VALUE 'navigation';
+ALTER TYPE public.conversation_end_reason ADD VALUE 'page_closed';
+ALTER TYPE public.conversation_end_reason ADD VALUE 'idle_timeout';
@@ -0,0 +1,31 @@
+-- Create enum describing the result of an agent's last health check
+CREATE TYPE public.agent_health_status AS ENUM ('healthy', 'not_found', 'error');
+
+-- Store the latest health check result on each agent
+ALTER TABLE public.agents
+ADD COLUMN health_status public.agent_health_status,
+ADD COLUMN health_detail TEXT,
+ADD COLUMN health_checked_at TIMESTAMP WITH TIME ZONE;
+
+-- Check every agent once an hour. The job reads two Vault secrets, which must
+-- be created per project: project_url, and agent_health_check_secret holding
+-- the same value as the function's HEALTH_CHECK_SECRET.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'agent-health-check',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/agent-health-check',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-health-check-secret',
+      (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'agent_health_check_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
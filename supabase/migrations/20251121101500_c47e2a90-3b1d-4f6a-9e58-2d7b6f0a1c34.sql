@@ -0,0 +1,116 @@
+-- Create enum for thumbs up/down on a single agent turn
+CREATE TYPE public.message_feedback_rating AS ENUM ('like', 'dislike');
+
+-- Create message_feedback table to store per-turn feedback, one vote per message
+CREATE TABLE public.message_feedback (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID REFERENCES public.conversation_messages(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  agent_id UUID REFERENCES public.agents(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  rating public.message_feedback_rating NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX message_feedback_agent_id_idx ON public.message_feedback (agent_id);
+
+-- Create conversation_ratings table to store the 1-5 rating given after a session
+CREATE TABLE public.conversation_ratings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  agent_id UUID REFERENCES public.agents(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT CHECK (char_length(comment) <= 2000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX conversation_ratings_agent_id_idx ON public.conversation_ratings (agent_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.message_feedback ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_ratings ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for message_feedback table
+CREATE POLICY "Users can view their own message feedback"
+ON public.message_feedback
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all message feedback"
+ON public.message_feedback
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can give feedback on their own conversations"
+ON public.message_feedback
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1
+    FROM public.conversations
+    WHERE conversations.id = message_feedback.conversation_id
+      AND conversations.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can change their own message feedback"
+ON public.message_feedback
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- RLS policies for conversation_ratings table
+CREATE POLICY "Users can view their own conversation ratings"
+ON public.conversation_ratings
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all conversation ratings"
+ON public.conversation_ratings
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can rate their own conversations"
+ON public.conversation_ratings
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1
+    FROM public.conversations
+    WHERE conversations.id = conversation_ratings.conversation_id
+      AND conversations.user_id = auth.uid()
+  )
+);
+
+-- Create a per-agent rollup so admins can spot weak agents. It runs with the
+-- caller's permissions, so non-admins only ever see their own feedback in it.
+CREATE VIEW public.agent_feedback_summary
+WITH (security_invoker = true)
+AS
+SELECT
+  agents.id AS agent_id,
+  ratings.rating_count,
+  ratings.average_rating,
+  feedback.like_count,
+  feedback.dislike_count
+FROM public.agents
+LEFT JOIN (
+  SELECT
+    agent_id,
+    count(*) AS rating_count,
+    round(avg(rating), 2) AS average_rating
+  FROM public.conversation_ratings
+  GROUP BY agent_id
+) AS ratings ON ratings.agent_id = agents.id
+LEFT JOIN (
+  SELECT
+    agent_id,
+    count(*) FILTER (WHERE rating = 'like') AS like_count,
+    count(*) FILTER (WHERE rating = 'dislike') AS dislike_count
+  FROM public.message_feedback
+  GROUP BY agent_id
+) AS feedback ON feedback.agent_id = agents.id;
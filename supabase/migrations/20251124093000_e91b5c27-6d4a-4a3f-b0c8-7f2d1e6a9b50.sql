@@ -0,0 +1,6 @@
+-- Store the post-session summary (key points, decisions and action items) with
+-- each conversation. Users can already update their own conversations, which
+-- covers editing it from the history page.
+ALTER TABLE public.conversations
+ADD COLUMN summary JSONB,
+ADD COLUMN summary_updated_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,7 @@
+-- Create enum for the service that runs an agent's conversations
+CREATE TYPE public.voice_provider AS ENUM ('elevenlabs', 'mock');
+
+-- Existing agents keep using ElevenLabs. Agents on the local demo provider
+-- have no ElevenLabs agent, so their agent_id is left empty.
+ALTER TABLE public.agents
+ADD COLUMN voice_provider public.voice_provider NOT NULL DEFAULT 'elevenlabs';
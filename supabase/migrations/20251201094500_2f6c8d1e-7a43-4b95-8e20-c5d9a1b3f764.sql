@@ -0,0 +1,120 @@
+-- Create enum for how far a recording has got on its way into storage
+CREATE TYPE public.recording_status AS ENUM ('pending', 'stored', 'unavailable');
+
+-- Create recording_consents table as the audit log of users agreeing to be
+-- recorded. Rows are only ever inserted, so each one shows exactly what was
+-- agreed to and when.
+CREATE TABLE public.recording_consents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  agent_id UUID REFERENCES public.agents(id) ON DELETE SET NULL,
+  consent_text TEXT NOT NULL,
+  user_agent TEXT,
+  consented_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX recording_consents_user_id_consented_at_idx
+ON public.recording_consents (user_id, consented_at DESC);
+
+-- Create conversation_recordings table with one row per voice provider
+-- session. Reconnects start a new provider session, so a conversation can
+-- have several recordings.
+CREATE TABLE public.conversation_recordings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  agent_id UUID REFERENCES public.agents(id) ON DELETE SET NULL,
+  consent_id UUID REFERENCES public.recording_consents(id) NOT NULL,
+  elevenlabs_conversation_id TEXT NOT NULL UNIQUE,
+  status public.recording_status NOT NULL DEFAULT 'pending',
+  storage_path TEXT,
+  detail TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX conversation_recordings_conversation_id_created_at_idx
+ON public.conversation_recordings (conversation_id, created_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.recording_consents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_recordings ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for recording_consents table
+CREATE POLICY "Users can view their own recording consents"
+ON public.recording_consents
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all recording consents"
+ON public.recording_consents
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can record their own consent"
+ON public.recording_consents
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- RLS policies for conversation_recordings table, matching the transcript.
+-- Uploads are done by the store-conversation-recordings edge function with
+-- the service role, so users cannot change a recording once it is stored.
+CREATE POLICY "Users can view recordings of their own conversations"
+ON public.conversation_recordings
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.conversations
+    WHERE conversations.id = conversation_recordings.conversation_id
+      AND conversations.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view all conversation recordings"
+ON public.conversation_recordings
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can add recordings to their own conversations"
+ON public.conversation_recordings
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1
+    FROM public.conversations
+    WHERE conversations.id = conversation_recordings.conversation_id
+      AND conversations.user_id = auth.uid()
+  )
+  AND EXISTS (
+    SELECT 1
+    FROM public.recording_consents
+    WHERE recording_consents.id = conversation_recordings.consent_id
+      AND recording_consents.user_id = auth.uid()
+  )
+);
+
+-- Create a private bucket for the audio. Files live under the conversation
+-- id, so listening follows the same rules as reading the transcript.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('conversation-recordings', 'conversation-recordings', false);
+
+CREATE POLICY "Users can listen to recordings of their own conversations"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'conversation-recordings'
+  AND EXISTS (
+    SELECT 1
+    FROM public.conversations
+    WHERE conversations.id::text = (storage.foldername(objects.name))[1]
+      AND conversations.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can listen to all recordings"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'conversation-recordings'
+  AND public.has_role(auth.uid(), 'admin')
+);
@@ -0,0 +1,38 @@
+-- Hide the ElevenLabs agent id and the system prompt additions from the
+-- browser. Sessions are started through the elevenlabs-session edge function,
+-- so regular users never need either column. Column privileges apply to the
+-- whole authenticated role, so admins read them through the function below.
+REVOKE SELECT ON public.agents FROM anon, authenticated;
+
+GRANT SELECT (
+  id,
+  name,
+  bio,
+  llm,
+  client_tools,
+  first_message,
+  language,
+  voice_id,
+  voice_provider,
+  shared_profile_fields,
+  health_status,
+  health_detail,
+  health_checked_at,
+  created_at
+) ON public.agents TO authenticated;
+
+-- Create a function for the agent settings screen, returning nothing to non-admins
+CREATE OR REPLACE FUNCTION public.get_agent_private_settings()
+RETURNS TABLE (id UUID, agent_id TEXT, prompt_override TEXT)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT agents.id, agents.agent_id, agents.prompt_override
+  FROM public.agents
+  WHERE public.has_role(auth.uid(), 'admin')
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_agent_private_settings() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_agent_private_settings() TO authenticated;
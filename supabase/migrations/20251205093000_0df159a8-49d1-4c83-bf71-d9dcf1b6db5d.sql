@@ -0,0 +1,11 @@
+-- Scope recording provider ids to their conversation. Rows are inserted by the
+-- client, so a globally unique id let anyone who learned another user's
+-- provider conversation id claim it first and block that user's recording.
+-- store-conversation-recordings checks who the provider session belongs to
+-- before copying any audio, so a claimed id only ever marks that row unavailable.
+ALTER TABLE public.conversation_recordings
+DROP CONSTRAINT conversation_recordings_elevenlabs_conversation_id_key;
+
+ALTER TABLE public.conversation_recordings
+ADD CONSTRAINT conversation_recordings_conversation_id_elevenlabs_conversation_id_key
+UNIQUE (conversation_id, elevenlabs_conversation_id);